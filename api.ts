@@ -0,0 +1,292 @@
+import { TFile } from "obsidian";
+import type KindlePdfPlugin from "./main";
+import { OutputFormat } from "./settings";
+import { PageProfileId } from "./devices";
+import { findProfile } from "./profiles";
+
+export type ExportStage = "resolve" | "html" | "generate" | "deliver";
+
+/** Milliseconds spent in each stage that ran. */
+export type StageTimings = Partial<Record<ExportStage, number>>;
+
+/** What processors and destinations know about the document. */
+export interface ProcessorContext {
+  title: string;
+  /** The note or canvas, unless several notes make up the document. */
+  sourceFile?: TFile;
+  format: OutputFormat;
+  /** Report a problem that doesn't stop the export. */
+  warn(message: string): void;
+}
+
+/** Changes a document's markdown after its embeds are resolved. */
+export type MarkdownProcessor = (
+  markdown: string,
+  context: ProcessorContext
+) => string | Promise<string>;
+
+/** Changes the HTML document before it becomes a PDF or EPUB. */
+export type HtmlProcessor = (
+  html: string,
+  context: ProcessorContext
+) => string | Promise<string>;
+
+export interface ExportedDocument {
+  title: string;
+  filename: string;
+  format: OutputFormat;
+  data: Buffer;
+}
+
+/** Somewhere other than Kindle, the vault or a file to deliver to. */
+export interface CustomDestination {
+  /** Passed as `destination` to export to it. */
+  id: string;
+  /** Shown in the progress modal and the "Export to …" command. */
+  name: string;
+  /**
+   * Deliver a generated document. Throw to fail the export; a returned
+   * message is shown when it is done.
+   */
+  deliver(
+    document: ExportedDocument,
+    context: ProcessorContext
+  ): Promise<string | void>;
+}
+
+export interface ExportResult {
+  /** Whether the document was saved, delivered or queued in the outbox. */
+  ok: boolean;
+  title: string;
+  format: OutputFormat;
+  destination: string;
+  /** The generated document, or its parts when it was sent in parts. */
+  documents: ExportedDocument[];
+  /** Where it was saved, for the "vault" and "file" destinations. */
+  path?: string;
+  /** Whether some parts wait in the outbox to be sent again. */
+  queued: boolean;
+  /** The outbox items those parts wait in. */
+  outboxIds: string[];
+  warnings: string[];
+  timings: StageTimings;
+  error?: unknown;
+}
+
+export interface RenderResult {
+  title: string;
+  html: string;
+  warnings: string[];
+  timings: StageTimings;
+}
+
+export interface DocumentResult extends RenderResult {
+  document: ExportedDocument;
+}
+
+export interface ExportFileOptions {
+  /** "kindle" (the default), "vault", "file" or a custom destination id. */
+  destination?: string;
+  /**
+   * Name or id of the delivery profile. Defaults to the one in the
+   * note's `kindle` frontmatter, then the first.
+   */
+  profile?: string;
+  /** Report with notices instead of the progress modal. */
+  silent?: boolean;
+}
+
+export interface RenderFileOptions {
+  /** Overrides the page profile from the settings. */
+  pageProfile?: PageProfileId;
+}
+
+export interface SendDocumentOptions {
+  /** Name or id of the delivery profile; the first by default. */
+  profile?: string;
+  /** The email subject; the filename without its extension by default. */
+  subject?: string;
+}
+
+/** Measures how long each stage takes, writing into `timings`. */
+export class StageTimer {
+  private stage: ExportStage | null = null;
+  private started = 0;
+
+  constructor(private timings: StageTimings) {}
+
+  start(stage: ExportStage) {
+    this.stop();
+    this.stage = stage;
+    this.started = performance.now();
+  }
+
+  stop() {
+    if (!this.stage) return;
+    this.timings[this.stage] = Math.round(performance.now() - this.started);
+    this.stage = null;
+  }
+}
+
+/** The processors and destinations other plugins have registered. */
+export class ExportHooks {
+  private markdownProcessors: MarkdownProcessor[] = [];
+  private htmlProcessors: HtmlProcessor[] = [];
+  private destinations = new Map<string, CustomDestination>();
+
+  addMarkdownProcessor(processor: MarkdownProcessor): () => void {
+    this.markdownProcessors.push(processor);
+    return () => this.markdownProcessors.remove(processor);
+  }
+
+  addHtmlProcessor(processor: HtmlProcessor): () => void {
+    this.htmlProcessors.push(processor);
+    return () => this.htmlProcessors.remove(processor);
+  }
+
+  /** Throws if a destination with the same id is already registered. */
+  addDestination(destination: CustomDestination): () => void {
+    if (this.destinations.has(destination.id)) {
+      throw new Error(
+        `A destination "${destination.id}" is already registered.`
+      );
+    }
+    this.destinations.set(destination.id, destination);
+    return () => this.destinations.delete(destination.id);
+  }
+
+  destination(id: string): CustomDestination | undefined {
+    return this.destinations.get(id);
+  }
+
+  /** Run the markdown processors in the order they were registered. */
+  async processMarkdown(
+    markdown: string,
+    context: ProcessorContext
+  ): Promise<string> {
+    for (const processor of this.markdownProcessors) {
+      markdown = await processor(markdown, context);
+    }
+    return markdown;
+  }
+
+  /** Run the HTML processors in the order they were registered. */
+  async processHtml(html: string, context: ProcessorContext): Promise<string> {
+    for (const processor of this.htmlProcessors) {
+      html = await processor(html, context);
+    }
+    return html;
+  }
+}
+
+/**
+ * The plugin's API for other plugins and scripts, as
+ * `app.plugins.plugins["kindle-pdf-export"].api`. Exports and sends
+ * report failures in their result, as the user sees them too;
+ * rendering methods throw.
+ */
+export class KindlePdfApi {
+  constructor(private plugin: KindlePdfPlugin) {}
+
+  /**
+   * Export a note or canvas through every stage, as the commands do,
+   * but without asking anything.
+   */
+  async exportFile(
+    file: TFile,
+    options: ExportFileOptions = {}
+  ): Promise<ExportResult> {
+    const { destination = "kindle", silent = false } = options;
+    const failed = (error: string): ExportResult => ({
+      ok: false,
+      title: file.basename,
+      format: this.plugin.settings.outputFormat,
+      destination,
+      documents: [],
+      queued: false,
+      outboxIds: [],
+      warnings: [],
+      timings: {},
+      error: new Error(error),
+    });
+
+    const profile =
+      destination === "kindle" ? this.profile(options, file) : null;
+    if (destination === "kindle" && !profile) {
+      return failed(
+        options.profile
+          ? `Unknown delivery profile "${options.profile}".`
+          : "There is no delivery profile."
+      );
+    }
+
+    const result = await this.plugin.exportNote(
+      file,
+      destination,
+      profile ?? undefined,
+      { warnUnchanged: false, silent }
+    );
+    return result ?? failed("The export settings are incomplete.");
+  }
+
+  /** A note or canvas as the HTML document it exports to. */
+  async renderHtml(
+    file: TFile,
+    options: RenderFileOptions = {}
+  ): Promise<RenderResult> {
+    return this.plugin.renderFile(file, options.pageProfile);
+  }
+
+  /** A note or canvas as a PDF, with images compressed as set up. */
+  async renderPdf(
+    file: TFile,
+    options: RenderFileOptions = {}
+  ): Promise<DocumentResult> {
+    return this.plugin.generateFile(file, "pdf", options.pageProfile);
+  }
+
+  /**
+   * Email a document to a Kindle. If it can't be sent it is saved to
+   * the outbox, and `queued` is set.
+   */
+  async send(
+    data: Buffer,
+    filename: string,
+    options: SendDocumentOptions = {}
+  ): Promise<ExportResult> {
+    return this.plugin.sendDocument(
+      data,
+      filename,
+      this.profile(options, null),
+      options.subject
+    );
+  }
+
+  /** Run `processor` on the markdown of every export, after embeds. */
+  registerMarkdownProcessor(processor: MarkdownProcessor): () => void {
+    return this.plugin.hooks.addMarkdownProcessor(processor);
+  }
+
+  /** Run `processor` on the HTML of every export, before generating. */
+  registerHtmlProcessor(processor: HtmlProcessor): () => void {
+    return this.plugin.hooks.addHtmlProcessor(processor);
+  }
+
+  /**
+   * Add a destination, with an "Export to …" command that uses it.
+   * Returns a function that removes both. Throws if the id is taken,
+   * by a built-in destination or one registered before.
+   */
+  registerDestination(destination: CustomDestination): () => void {
+    return this.plugin.addDestination(destination);
+  }
+
+  private profile(options: { profile?: string }, file: TFile | null) {
+    const { profiles } = this.plugin.settings;
+    if (options.profile) return findProfile(profiles, options.profile);
+    const value = file
+      ? this.plugin.app.metadataCache.getFileCache(file)?.frontmatter?.kindle
+      : undefined;
+    return findProfile(profiles, value) || profiles[0] || null;
+  }
+}
@@ -0,0 +1,342 @@
+import { CachedMetadata, Notice, TFile, getAllTags, moment } from "obsidian";
+import type KindlePdfPlugin from "./main";
+import { ExportResult } from "./api";
+import { normalizeTag } from "./batch";
+import { OutboxItem } from "./outbox";
+import { DeliveryProfile, findProfile } from "./profiles";
+
+export type MarkerAction = "remove" | "rewrite";
+export type DigestSchedule = "off" | "daily" | "weekly";
+
+/** Frontmatter property that asks for a note to be sent. */
+export const SEND_PROPERTY = "send-to-kindle";
+
+const LAST_DIGEST_KEY = "kindle-pdf-export-last-digest";
+
+// Wait for edits to settle before sending a newly marked note
+const SETTLE_DELAY = 10 * 1000;
+
+// Wait before trying a digest again that couldn't be exported
+const DIGEST_RETRY = 15 * 60 * 1000;
+
+/** Notes that keep their marker until the outbox has sent these items. */
+interface Waiting {
+  ids: Set<string>;
+  files: TFile[];
+  tag: string;
+  property: boolean;
+}
+
+/** Whether a note carries exactly this tag (nested tags don't count). */
+function carriesTag(cache: CachedMetadata | null, tag: string): boolean {
+  if (!cache || !tag) return false;
+  const wanted = normalizeTag(tag);
+  return (getAllTags(cache) || []).some((t) => normalizeTag(t) === wanted);
+}
+
+/** Remove a tag from a frontmatter `tags` value, or replace it. */
+function replaceTagList(
+  value: unknown,
+  tag: string,
+  replacement: string | null
+): unknown {
+  const list = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+    ? value.split(/[,\s]+/).filter(Boolean)
+    : null;
+  const wanted = normalizeTag(tag);
+  const matches = (item: unknown) =>
+    typeof item === "string" && normalizeTag(item) === wanted;
+  if (!list || !list.some(matches)) return value;
+
+  const result: unknown[] = [];
+  for (const item of list) {
+    if (matches(item)) {
+      if (replacement && !result.includes(replacement)) {
+        result.push(replacement);
+      }
+    } else {
+      result.push(item);
+    }
+  }
+  return result;
+}
+
+/** Remove an inline `#tag` from a note's text, or replace it. */
+function replaceInlineTag(
+  text: string,
+  tag: string,
+  replacement: string | null
+): string {
+  const escaped = normalizeTag(tag).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const re = new RegExp(`(^|\\s)#${escaped}(?=$|[\\s,.;:!?)\\]])`, "gim");
+  return text.replace(re, replacement ? `$1#${replacement}` : "$1");
+}
+
+/**
+ * Sends notes in the background: a note is sent once it gets the
+ * auto-send tag or `send-to-kindle: true`, and notes with the digest tag
+ * are bundled into one book on a daily or weekly schedule. Once sent,
+ * the marker is removed or rewritten so the note isn't sent again; for
+ * a document that went to the outbox, once the outbox has sent it.
+ */
+export class AutoSender {
+  private timers = new Map<string, number>();
+  private sending = new Set<string>();
+  private waiting: Waiting[] = [];
+  private digesting = false;
+  private digestRetry = 0;
+  private warnedNoProfile = false;
+
+  constructor(private plugin: KindlePdfPlugin) {}
+
+  private get app() {
+    return this.plugin.app;
+  }
+
+  private get settings() {
+    return this.plugin.settings;
+  }
+
+  start() {
+    const { app, plugin } = this;
+
+    plugin.registerEvent(
+      app.metadataCache.on("changed", (file, _data, cache) =>
+        this.check(file, cache)
+      )
+    );
+    plugin.registerEvent(
+      app.vault.on("delete", (file) => this.cancel(file.path))
+    );
+    plugin.registerEvent(
+      app.vault.on("rename", (_file, oldPath) => this.cancel(oldPath))
+    );
+    plugin.register(() => {
+      for (const timer of this.timers.values()) window.clearTimeout(timer);
+    });
+    plugin.registerEvent(
+      plugin.outbox.on("sent", (item) => this.delivered(item as OutboxItem))
+    );
+
+    app.workspace.onLayoutReady(() => {
+      this.scan();
+      this.checkDigest();
+    });
+    plugin.registerInterval(
+      window.setInterval(() => this.checkDigest(), 60000)
+    );
+  }
+
+  /** Look for notes that were marked while auto-send was off. */
+  scan() {
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      this.check(file, this.app.metadataCache.getFileCache(file));
+    }
+  }
+
+  private isMarked(cache: CachedMetadata | null): boolean {
+    return (
+      cache?.frontmatter?.[SEND_PROPERTY] === true ||
+      carriesTag(cache, this.settings.autoSendTag)
+    );
+  }
+
+  private check(file: TFile, cache: CachedMetadata | null) {
+    if (!this.settings.autoSend || this.sending.has(file.path)) return;
+    // Already in the outbox, waiting to be sent
+    if (this.waiting.some((w) => w.files.includes(file))) return;
+
+    this.cancel(file.path);
+    if (!this.isMarked(cache)) return;
+    this.timers.set(
+      file.path,
+      window.setTimeout(() => this.send(file), SETTLE_DELAY)
+    );
+  }
+
+  private cancel(path: string) {
+    window.clearTimeout(this.timers.get(path));
+    this.timers.delete(path);
+  }
+
+  /**
+   * The profile for background sends: the note's `kindle` frontmatter
+   * profile, else the auto-send profile, else the first profile.
+   */
+  private profileFor(file: TFile | null): DeliveryProfile | null {
+    const { profiles, autoSendProfile } = this.settings;
+    const value = file
+      ? this.app.metadataCache.getFileCache(file)?.frontmatter?.kindle
+      : undefined;
+    return (
+      findProfile(profiles, value) ||
+      profiles.find((p) => p.id === autoSendProfile) ||
+      profiles[0] ||
+      null
+    );
+  }
+
+  private async send(file: TFile) {
+    this.timers.delete(file.path);
+    // The marker may have been removed while waiting
+    const cache = this.app.metadataCache.getFileCache(file);
+    if (!this.settings.autoSend || !this.isMarked(cache)) return;
+
+    const profile = this.profileFor(file);
+    if (!profile) {
+      if (!this.warnedNoProfile) {
+        new Notice(
+          "Notes marked for Kindle aren't sent: there is no delivery profile."
+        );
+        this.warnedNoProfile = true;
+      }
+      return;
+    }
+
+    this.sending.add(file.path);
+    try {
+      const sent = await this.plugin.exportNote(file, "kindle", profile, {
+        warnUnchanged: false,
+        silent: true,
+      });
+      await this.finish(sent, [file], this.settings.autoSendTag, true);
+    } finally {
+      this.sending.delete(file.path);
+    }
+  }
+
+  /**
+   * Clear the markers of the notes in a document once it is sent. If
+   * parts of it went to the outbox, wait until those are sent too.
+   */
+  private async finish(
+    result: ExportResult | null,
+    files: TFile[],
+    tag: string,
+    property: boolean
+  ) {
+    if (!result?.ok) return;
+    // Parts may have left the outbox already, sent or removed
+    const ids = result.outboxIds.filter((id) =>
+      this.plugin.outbox.list().some((item) => item.id === id)
+    );
+    if (ids.length) {
+      this.waiting.push({ ids: new Set(ids), files, tag, property });
+      return;
+    }
+    for (const file of files) {
+      await this.clearMarker(file, tag, property);
+    }
+  }
+
+  private async delivered(item: OutboxItem) {
+    for (const waiting of this.waiting.slice()) {
+      if (!waiting.ids.delete(item.id) || waiting.ids.size) continue;
+      this.waiting.remove(waiting);
+      for (const file of waiting.files) {
+        if (this.app.vault.getAbstractFileByPath(file.path) !== file) continue;
+        await this.clearMarker(file, waiting.tag, waiting.property);
+      }
+    }
+  }
+
+  /** When the most recent digest was due, or null when digests are off. */
+  private lastDue(now: moment.Moment): moment.Moment | null {
+    const { digestSchedule, digestTime, digestDay } = this.settings;
+    if (digestSchedule === "off") return null;
+
+    const [hour, minute] = digestTime.split(":").map(Number);
+    const due = now.clone().set({
+      hour: hour || 0,
+      minute: minute || 0,
+      second: 0,
+      millisecond: 0,
+    });
+    const period = digestSchedule === "weekly" ? "week" : "day";
+    if (period === "week") due.day(digestDay);
+    while (due.isAfter(now)) due.subtract(1, period);
+    return due;
+  }
+
+  /**
+   * Send the digest if one has come due since the last. It counts as
+   * sent once it is delivered or in the outbox; a digest that couldn't
+   * be exported is tried again a little later.
+   */
+  async checkDigest() {
+    const due = this.lastDue(moment());
+    if (!due || this.digesting || Date.now() < this.digestRetry) return;
+
+    const last = Number(this.app.loadLocalStorage(LAST_DIGEST_KEY)) || 0;
+    if (last >= due.valueOf()) return;
+    const done = () =>
+      this.app.saveLocalStorage(LAST_DIGEST_KEY, String(Date.now()));
+    // The first check only starts the schedule
+    if (!last) return done();
+
+    const { digestTag } = this.settings;
+    const files = this.app.vault
+      .getMarkdownFiles()
+      .filter((file) =>
+        carriesTag(this.app.metadataCache.getFileCache(file), digestTag)
+      );
+    const profile = this.profileFor(null);
+    if (!files.length || !profile) return done();
+
+    this.digesting = true;
+    try {
+      const title = `Kindle digest ${due.format("YYYY-MM-DD")}`;
+      const sent = await this.plugin.exportNotes(title, files, profile, {
+        silent: true,
+      });
+      if (sent?.ok) {
+        done();
+        await this.finish(sent, files, digestTag, false);
+      } else {
+        this.digestRetry = Date.now() + DIGEST_RETRY;
+      }
+    } finally {
+      this.digesting = false;
+    }
+  }
+
+  /**
+   * Take the send marker off a note: the tag, and the `send-to-kindle`
+   * property when `property` is set. Rewriting swaps the tag for the
+   * sent tag and sets the property to false.
+   */
+  private async clearMarker(file: TFile, tag: string, property: boolean) {
+    const { markerAction, sentTag } = this.settings;
+    const rewrite = markerAction === "rewrite";
+    const replacement =
+      rewrite && sentTag && normalizeTag(sentTag) !== normalizeTag(tag)
+        ? normalizeTag(sentTag)
+        : null;
+
+    if (this.app.metadataCache.getFileCache(file)?.frontmatter) {
+      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+        if (property && SEND_PROPERTY in frontmatter) {
+          if (rewrite) frontmatter[SEND_PROPERTY] = false;
+          else delete frontmatter[SEND_PROPERTY];
+        }
+        if (!tag) return;
+        for (const key of ["tags", "tag"]) {
+          if (key in frontmatter) {
+            frontmatter[key] = replaceTagList(
+              frontmatter[key],
+              tag,
+              replacement
+            );
+          }
+        }
+      });
+    }
+    if (tag) {
+      await this.app.vault.process(file, (text) =>
+        replaceInlineTag(text, tag, replacement)
+      );
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  App,
+  FuzzySuggestModal,
+  TFile,
+  TFolder,
+  Vault,
+  getAllTags,
+} from "obsidian";
+
+export type BatchOrder = "filename" | "frontmatter" | "manual";
+
+// ── Gathering ─────────────────────────────────────────────────────
+
+/** Every markdown note inside a folder, including its subfolders. */
+export function collectFolderNotes(folder: TFolder): TFile[] {
+  const notes: TFile[] = [];
+  Vault.recurseChildren(folder, (file) => {
+    if (file instanceof TFile && file.extension === "md") notes.push(file);
+  });
+  return notes;
+}
+
+/** Every markdown note carrying a tag (or one of its nested tags). */
+export function collectTaggedNotes(app: App, tag: string): TFile[] {
+  const wanted = normalizeTag(tag);
+  return app.vault.getMarkdownFiles().filter((file) => {
+    const cache = app.metadataCache.getFileCache(file);
+    const tags = cache ? getAllTags(cache) || [] : [];
+    return tags.some((t) => {
+      const normalized = normalizeTag(t);
+      return normalized === wanted || normalized.startsWith(`${wanted}/`);
+    });
+  });
+}
+
+export function collectAllTags(app: App): string[] {
+  const tags = new Set<string>();
+  for (const file of app.vault.getMarkdownFiles()) {
+    const cache = app.metadataCache.getFileCache(file);
+    if (!cache) continue;
+    for (const tag of getAllTags(cache) || []) tags.add(tag);
+  }
+  return Array.from(tags).sort();
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.replace(/^#/, "").toLowerCase();
+}
+
+// ── Ordering ──────────────────────────────────────────────────────
+
+const byPath = (a: TFile, b: TFile) =>
+  a.path.localeCompare(b.path, undefined, { numeric: true });
+
+/**
+ * Order notes for a combined book.
+ * - filename → natural sort on the vault path
+ * - frontmatter → numeric `order` property, unordered notes last
+ * - manual → position in the manual list (names or paths), unlisted last
+ * Ties always fall back to filename order.
+ */
+export function sortNotes(
+  app: App,
+  notes: TFile[],
+  order: BatchOrder,
+  manualList: string[] = []
+): TFile[] {
+  const rank = (file: TFile): number => {
+    if (order === "frontmatter") {
+      const value =
+        app.metadataCache.getFileCache(file)?.frontmatter?.["order"];
+      const num = typeof value === "number" ? value : parseFloat(value);
+      return isNaN(num) ? Infinity : num;
+    }
+    if (order === "manual") {
+      const idx = manualList.findIndex(
+        (entry) =>
+          entry === file.basename ||
+          entry === file.path ||
+          entry === file.path.replace(/\.md$/, "")
+      );
+      return idx === -1 ? Infinity : idx;
+    }
+    return 0;
+  };
+
+  return [...notes].sort((a, b) => {
+    const ra = rank(a);
+    const rb = rank(b);
+    if (ra !== rb) return ra < rb ? -1 : 1;
+    return byPath(a, b);
+  });
+}
+
+// ── Pickers ───────────────────────────────────────────────────────
+
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+  constructor(app: App, private onChoose: (folder: TFolder) => void) {
+    super(app);
+    this.setPlaceholder("Choose a folder to send to Kindle");
+  }
+
+  getItems(): TFolder[] {
+    return this.app.vault
+      .getAllLoadedFiles()
+      .filter((f): f is TFolder => f instanceof TFolder);
+  }
+
+  getItemText(folder: TFolder): string {
+    return folder.isRoot() ? "/" : folder.path;
+  }
+
+  onChooseItem(folder: TFolder): void {
+    this.onChoose(folder);
+  }
+}
+
+export class TagSuggestModal extends FuzzySuggestModal<string> {
+  constructor(app: App, private onChoose: (tag: string) => void) {
+    super(app);
+    this.setPlaceholder("Choose a tag to send to Kindle");
+  }
+
+  getItems(): string[] {
+    return collectAllTags(this.app);
+  }
+
+  getItemText(tag: string): string {
+    return tag;
+  }
+
+  onChooseItem(tag: string): void {
+    this.onChoose(tag);
+  }
+}
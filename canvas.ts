@@ -0,0 +1,347 @@
+import { TFile } from "obsidian";
+import { escapeHtml } from "./markup";
+
+/** How a canvas larger than the page is printed. */
+export type CanvasLayout = "fit" | "tile";
+
+type Side = "top" | "right" | "bottom" | "left";
+
+/** A card of a `.canvas` file (JSON Canvas, see jsoncanvas.org). */
+export interface CanvasNode {
+  id: string;
+  type: "text" | "file" | "link" | "group";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text?: string;
+  file?: string;
+  subpath?: string;
+  url?: string;
+  label?: string;
+}
+
+export interface CanvasEdge {
+  id: string;
+  fromNode: string;
+  fromSide?: Side;
+  fromEnd?: "none" | "arrow";
+  toNode: string;
+  toSide?: Side;
+  toEnd?: "none" | "arrow";
+  label?: string;
+}
+
+export interface CanvasData {
+  nodes: CanvasNode[];
+  edges: CanvasEdge[];
+}
+
+/** Room for a page, in CSS pixels. */
+export interface CanvasPage {
+  width: number;
+  height: number;
+}
+
+// Space around the outermost cards
+const PADDING = 20;
+
+/** Whether a file can be exported: a markdown note or a canvas. */
+export function isExportable(file: TFile): boolean {
+  return file.extension === "md" || file.extension === "canvas";
+}
+
+/** Read a `.canvas` file. Throws if it isn't canvas JSON. */
+export function parseCanvas(json: string): CanvasData {
+  let data: Partial<CanvasData>;
+  try {
+    data = JSON.parse(json || "{}");
+  } catch {
+    throw new Error("The canvas file is not valid JSON.");
+  }
+  const isBox = (node: CanvasNode) =>
+    [node.x, node.y, node.width, node.height].every(Number.isFinite);
+  return {
+    nodes: Array.isArray(data.nodes) ? data.nodes.filter(isBox) : [],
+    edges: Array.isArray(data.edges) ? data.edges : [],
+  };
+}
+
+/**
+ * The markdown shown in a card: the text of a text card, an embed of
+ * the file of a file card, and the address of a link card. Groups have
+ * none.
+ */
+export function cardMarkdown(node: CanvasNode): string | null {
+  switch (node.type) {
+    case "text":
+      return node.text ?? "";
+    case "file":
+      return node.file ? `![[${node.file}${node.subpath ?? ""}]]` : null;
+    case "link":
+      return node.url ? `<${node.url}>` : null;
+    default:
+      return null;
+  }
+}
+
+function sidePoint(node: CanvasNode, side: Side): [number, number] {
+  const { x, y, width: w, height: h } = node;
+  switch (side) {
+    case "top":
+      return [x + w / 2, y];
+    case "bottom":
+      return [x + w / 2, y + h];
+    case "left":
+      return [x, y + h / 2];
+    case "right":
+      return [x + w, y + h / 2];
+  }
+}
+
+/** The side of `node` that faces `other`, for edges that don't say. */
+function facingSide(node: CanvasNode, other: CanvasNode): Side {
+  const dx = other.x + other.width / 2 - (node.x + node.width / 2);
+  const dy = other.y + other.height / 2 - (node.y + node.height / 2);
+  if (Math.abs(dx) > Math.abs(dy)) return dx > 0 ? "right" : "left";
+  return dy > 0 ? "bottom" : "top";
+}
+
+const NORMALS: Record<Side, [number, number]> = {
+  top: [0, -1],
+  right: [1, 0],
+  bottom: [0, 1],
+  left: [-1, 0],
+};
+
+/**
+ * The edges as one SVG in canvas coordinates: curves that leave and
+ * enter the cards at right angles, as Obsidian draws them.
+ */
+function renderEdges(canvas: CanvasData, box: Box): string {
+  const nodes = new Map(canvas.nodes.map((node) => [node.id, node]));
+  const paths: string[] = [];
+
+  for (const edge of canvas.edges) {
+    const from = nodes.get(edge.fromNode);
+    const to = nodes.get(edge.toNode);
+    if (!from || !to) continue;
+
+    const fromSide = edge.fromSide ?? facingSide(from, to);
+    const toSide = edge.toSide ?? facingSide(to, from);
+    const [x1, y1] = sidePoint(from, fromSide);
+    const [x2, y2] = sidePoint(to, toSide);
+    const bend = Math.min(150, Math.max(40, Math.hypot(x2 - x1, y2 - y1) / 2));
+    const c1 = [
+      x1 + NORMALS[fromSide][0] * bend,
+      y1 + NORMALS[fromSide][1] * bend,
+    ];
+    const c2 = [x2 + NORMALS[toSide][0] * bend, y2 + NORMALS[toSide][1] * bend];
+
+    const start =
+      edge.fromEnd === "arrow"
+        ? ' marker-start="url(#kindle-canvas-arrow)"'
+        : "";
+    const end =
+      (edge.toEnd ?? "arrow") === "arrow"
+        ? ' marker-end="url(#kindle-canvas-arrow)"'
+        : "";
+    paths.push(
+      `<path class="kindle-canvas-edge" d="M${x1},${y1} C${c1} ${c2} ${x2},${y2}"${start}${end}/>`
+    );
+
+    if (edge.label) {
+      // The middle of the curve
+      const lx = (x1 + 3 * c1[0] + 3 * c2[0] + x2) / 8;
+      const ly = (y1 + 3 * c1[1] + 3 * c2[1] + y2) / 8;
+      paths.push(
+        `<text class="kindle-canvas-edge-label" x="${lx}" y="${ly}">${escapeHtml(
+          edge.label
+        )}</text>`
+      );
+    }
+  }
+
+  if (!paths.length) return "";
+  // One line, so markdown keeps it a single HTML block
+  return (
+    `<svg class="kindle-canvas-edges" width="${box.width}" height="${box.height}" ` +
+    `viewBox="${box.x} ${box.y} ${box.width} ${box.height}">` +
+    `<defs><marker id="kindle-canvas-arrow" viewBox="0 0 10 10" refX="9" refY="5" ` +
+    `markerWidth="8" markerHeight="8" orient="auto-start-reverse">` +
+    `<path d="M0,0 L10,5 L0,10 z"/></marker></defs>${paths.join("")}</svg>`
+  );
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function boundingBox(nodes: CanvasNode[]): Box {
+  const left = Math.min(...nodes.map((n) => n.x)) - PADDING;
+  const top = Math.min(...nodes.map((n) => n.y)) - PADDING;
+  const right = Math.max(...nodes.map((n) => n.x + n.width)) + PADDING;
+  const bottom = Math.max(...nodes.map((n) => n.y + n.height)) + PADDING;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+function overlaps(a: Box, b: Box): boolean {
+  return (
+    a.x < b.x + b.width &&
+    b.x < a.x + a.width &&
+    a.y < b.y + b.height &&
+    b.y < a.y + a.height
+  );
+}
+
+/**
+ * Lay out a canvas as HTML blocks in markdown, with each card's
+ * markdown (from `contents`, by card id) left for the markdown
+ * renderer. With "fit" the canvas is scaled down to one page; with
+ * "tile" it is printed at full size and cut into pages, leaving out
+ * pages without cards.
+ */
+export function renderCanvas(
+  canvas: CanvasData,
+  contents: Map<string, string>,
+  page: CanvasPage,
+  layout: CanvasLayout
+): string {
+  if (!canvas.nodes.length) return "";
+  const box = boundingBox(canvas.nodes);
+  const edges = renderEdges(canvas, box);
+
+  const block = (node: CanvasNode): string => {
+    const position =
+      `left:${node.x - box.x}px;top:${node.y - box.y}px;` +
+      `width:${node.width}px;height:${node.height}px`;
+    if (node.type === "group") {
+      const label = node.label ? escapeHtml(node.label) : "";
+      return (
+        `<div class="kindle-canvas-group" style="${position}">` +
+        `<span class="kindle-canvas-group-label">${label}</span></div>`
+      );
+    }
+    // Blank lines around the card's markdown, so it is rendered
+    const markdown = contents.get(node.id) ?? "";
+    return (
+      `<div class="kindle-canvas-card" style="${position}">\n` +
+      `<div class="kindle-canvas-card-body">\n\n${markdown}\n\n</div></div>`
+    );
+  };
+
+  const tile = (area: Box, scale: number): string => {
+    const shown = canvas.nodes.filter((node) => overlaps(node, area));
+    if (!shown.length) return "";
+
+    // Groups go under the edges, and the edges under the cards
+    const groups = shown.filter((node) => node.type === "group");
+    const cards = shown.filter((node) => node.type !== "group");
+    const width = area.width * scale;
+    const height = area.height * scale;
+    const left = (box.x - area.x) * scale;
+    const top = (box.y - area.y) * scale;
+    return [
+      `<div class="kindle-canvas-page" style="width:${width}px;height:${height}px">`,
+      `<div class="kindle-canvas" style="width:${box.width}px;height:${box.height}px;left:${left}px;top:${top}px;transform:scale(${scale})">`,
+      ...groups.map(block),
+      edges,
+      ...cards.map(block),
+      "</div>",
+      "</div>",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  };
+
+  const fitScale = Math.min(
+    1,
+    page.width / box.width,
+    page.height / box.height
+  );
+  if (layout === "fit" || fitScale === 1) {
+    return `\n\n${tile(box, fitScale)}\n\n`;
+  }
+
+  const pages: string[] = [];
+  for (let y = box.y; y < box.y + box.height; y += page.height) {
+    for (let x = box.x; x < box.x + box.width; x += page.width) {
+      const area = {
+        x,
+        y,
+        width: Math.min(page.width, box.x + box.width - x),
+        height: Math.min(page.height, box.y + box.height - y),
+      };
+      const html = tile(area, 1);
+      if (html) pages.push(html);
+    }
+  }
+  return `\n\n${pages.join("\n\n")}\n\n`;
+}
+
+/**
+ * A canvas as plain markdown, for formats that reflow: the cards from
+ * top to bottom and left to right, with each group's label as a heading
+ * over the cards inside it. Arrows are left out.
+ */
+export function linearCanvas(
+  canvas: CanvasData,
+  contents: Map<string, string>
+): string {
+  const byPosition = (a: CanvasNode, b: CanvasNode) => a.y - b.y || a.x - b.x;
+  const groups = canvas.nodes.filter((node) => node.type === "group");
+  const cards = canvas.nodes
+    .filter((node) => node.type !== "group" && contents.has(node.id))
+    .sort(byPosition);
+
+  // Each card goes under the smallest group around its middle
+  const inGroup = new Map<CanvasNode, CanvasNode[]>();
+  const loose: CanvasNode[] = [];
+  for (const card of cards) {
+    const middle = {
+      x: card.x + card.width / 2,
+      y: card.y + card.height / 2,
+      width: 1,
+      height: 1,
+    };
+    const group = groups
+      .filter((g) => overlaps(g, middle))
+      .sort((a, b) => a.width * a.height - b.width * b.height)[0];
+    if (group) inGroup.set(group, [...(inGroup.get(group) ?? []), card]);
+    else loose.push(card);
+  }
+
+  const rule = "\n\n* * *\n\n";
+  const text = (card: CanvasNode) => contents.get(card.id) ?? "";
+  const blocks: string[] = [];
+  for (const node of [...loose, ...inGroup.keys()].sort(byPosition)) {
+    if (node.type !== "group") {
+      blocks.push(text(node));
+      continue;
+    }
+    const heading = node.label ? `## ${node.label}\n\n` : "";
+    blocks.push(heading + (inGroup.get(node) ?? []).map(text).join(rule));
+  }
+  return `\n\n${blocks.join(rule)}\n\n`;
+}
+
+/**
+ * Shrink what a canvas card shows when it doesn't fit the card, which
+ * Obsidian would scroll instead. It runs in the page being printed, so
+ * it uses nothing from this module.
+ */
+export function fitCanvasCards(doc: Document): void {
+  doc.querySelectorAll(".kindle-canvas-card").forEach((card) => {
+    const body = card.firstElementChild as HTMLElement | null;
+    if (!body) return;
+    // Padding doesn't shrink with the text, so close in over a few steps
+    let scale = 1;
+    for (let i = 0; i < 4 && card.scrollHeight > card.clientHeight; i++) {
+      scale *= card.clientHeight / card.scrollHeight;
+      body.style.zoom = String(scale);
+    }
+  });
+}
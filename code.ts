@@ -0,0 +1,154 @@
+import { MarkedExtension } from "marked";
+import hljs from "highlight.js/lib/common";
+import { escapeHtml } from "./markup";
+
+export type CodeTheme = "none" | "grayscale" | "e-ink";
+
+export interface CodeOptions {
+  theme: CodeTheme;
+  lineNumbers: boolean;
+  /** Hard-wrap lines longer than this many characters, 0 to disable. */
+  wrapColumns: number;
+}
+
+const CONTINUATION = '<span class="code-continuation">↪</span>';
+
+// E-ink panels show few shades of grey, so both themes lean on font
+// style rather than colour to tell tokens apart.
+const THEME_CSS: Record<CodeTheme, string> = {
+  none: "",
+  grayscale: `
+  .hljs-keyword, .hljs-built_in, .hljs-selector-tag { font-weight: bold; }
+  .hljs-string, .hljs-regexp, .hljs-symbol { color: #444; font-style: italic; }
+  .hljs-comment, .hljs-quote { color: #777; font-style: italic; }
+  .hljs-title, .hljs-section { font-weight: bold; color: #222; }
+  .hljs-type, .hljs-class .hljs-title { text-decoration: underline; }
+  .hljs-number, .hljs-literal { color: #333; }
+  .hljs-meta, .hljs-attr, .hljs-attribute { color: #555; }
+  .hljs-deletion { text-decoration: line-through; }
+  .hljs-addition { font-weight: bold; }`,
+  "e-ink": `
+  .hljs-keyword, .hljs-built_in, .hljs-selector-tag { font-weight: bold; }
+  .hljs-string, .hljs-regexp, .hljs-symbol { font-style: italic; }
+  .hljs-comment, .hljs-quote { font-style: italic; text-decoration: underline dotted; }
+  .hljs-title, .hljs-section { font-weight: bold; text-decoration: underline; }
+  .hljs-type, .hljs-class .hljs-title { text-decoration: underline; }
+  .hljs-number, .hljs-literal { font-weight: bold; font-style: italic; }
+  .hljs-deletion { text-decoration: line-through; }
+  .hljs-addition { font-weight: bold; }`,
+};
+
+export function codeThemeCss(theme: CodeTheme): string {
+  return THEME_CSS[theme] || "";
+}
+
+/**
+ * Split highlighted HTML into lines. Spans that cross a line break
+ * (multi-line comments and strings) are closed at the end of the line
+ * and reopened on the next one, so every line is well-formed.
+ */
+function splitLines(html: string): string[] {
+  const lines: string[] = [];
+  const open: string[] = [];
+  let line = "";
+
+  for (const part of html.split(/(<[^>]+>|\n)/)) {
+    if (part === "\n") {
+      lines.push(line + "</span>".repeat(open.length));
+      line = open.join("");
+    } else if (part.startsWith("</")) {
+      open.pop();
+      line += part;
+    } else if (part.startsWith("<")) {
+      open.push(part);
+      line += part;
+    } else {
+      line += part;
+    }
+  }
+  lines.push(line + "</span>".repeat(open.length));
+
+  return lines;
+}
+
+/**
+ * Break one highlighted line into rows of at most `columns` visible
+ * characters. Entities count as one character and markup as none.
+ */
+function wrapLine(line: string, columns: number): string[] {
+  const rows: string[] = [];
+  const open: string[] = [];
+  let row = "";
+  let width = 0;
+
+  for (const part of line.split(/(<[^>]+>|&[#\w]+;)/)) {
+    if (!part) continue;
+    if (part.startsWith("</")) {
+      open.pop();
+      row += part;
+      continue;
+    }
+    if (part.startsWith("<")) {
+      open.push(part);
+      row += part;
+      continue;
+    }
+
+    const chars = part.startsWith("&") ? [part] : Array.from(part);
+    for (const ch of chars) {
+      if (width === columns) {
+        rows.push(row + "</span>".repeat(open.length));
+        row = open.join("");
+        width = 0;
+      }
+      row += ch;
+      width++;
+    }
+  }
+  rows.push(row + "</span>".repeat(open.length));
+
+  return rows;
+}
+
+/**
+ * Fenced code with highlight.js token classes, optional line numbers,
+ * and long lines wrapped onto continuation rows marked with ↪.
+ */
+export function codeExtension(options: CodeOptions): MarkedExtension {
+  return {
+    renderer: {
+      code({ text, lang }) {
+        const language = (lang || "").match(/^\S*/)?.[0] || "";
+        const known = options.theme !== "none" && hljs.getLanguage(language);
+        const highlighted = known
+          ? hljs.highlight(text, { language, ignoreIllegals: true }).value
+          : escapeHtml(text);
+
+        const rows: string[] = [];
+        splitLines(highlighted.replace(/\n$/, "")).forEach((line, i) => {
+          // Leave room for the ↪ marker on continuation rows
+          const wrapped =
+            options.wrapColumns > 0
+              ? wrapLine(line, options.wrapColumns - 2)
+              : [line];
+          wrapped.forEach((row, r) => {
+            const number = options.lineNumbers
+              ? `<span class="code-line-number">${r === 0 ? i + 1 : ""}</span>`
+              : "";
+            const marker = r === 0 ? "" : CONTINUATION;
+            rows.push(
+              `<span class="code-line">${number}${marker}${row}</span>`
+            );
+          });
+        });
+
+        const cls = language
+          ? ` class="hljs language-${escapeHtml(language)}"`
+          : ' class="hljs"';
+        return `<pre class="code-block"><code${cls}>${rows.join(
+          "\n"
+        )}</code></pre>\n`;
+      },
+    },
+  };
+}
@@ -0,0 +1,269 @@
+import { App, Modal, Setting, TextComponent } from "obsidian";
+
+// Kept in the app's local storage for this vault: on this device only,
+// never in data.json, so it isn't synced or committed with the vault.
+const STORAGE_KEY = "kindle-pdf-export-credentials";
+
+const PBKDF2_ITERATIONS = 210000;
+
+type StoredSecret =
+  | { method: "safe-storage"; data: string }
+  | { method: "passphrase"; salt: string; iv: string; data: string };
+
+interface SafeStorage {
+  isEncryptionAvailable(): boolean;
+  encryptString(plainText: string): Buffer;
+  decryptString(encrypted: Buffer): string;
+}
+
+/**
+ * Electron's safeStorage, backed by the OS keychain, if it works here.
+ * It lives in the main process, reached through the @electron/remote
+ * module Obsidian ships.
+ */
+function loadSafeStorage(): SafeStorage | null {
+  try {
+    const safeStorage: SafeStorage | undefined =
+      require("@electron/remote").safeStorage;
+    return safeStorage?.isEncryptionAvailable() ? safeStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+function toBase64(data: ArrayBuffer | Uint8Array): string {
+  return Buffer.from(data as ArrayBuffer).toString("base64");
+}
+
+function fromBase64(data: string): ArrayBuffer {
+  const buffer = Buffer.from(data, "base64");
+  return buffer.buffer.slice(
+    buffer.byteOffset,
+    buffer.byteOffset + buffer.byteLength
+  ) as ArrayBuffer;
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: BufferSource
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/** Asks for the passphrase, twice when a new one is being chosen. */
+class PassphraseModal extends Modal {
+  private submitted = false;
+
+  constructor(
+    app: App,
+    private message: string,
+    private confirm: boolean,
+    private onSubmit: (passphrase: string | null) => void
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h2", { text: "Kindle PDF passphrase" });
+    contentEl.createEl("p", { text: this.message });
+
+    let value = "";
+    let repeated = "";
+    let errorEl: HTMLElement | null = null;
+    const submit = () => {
+      if (!value) return;
+      if (this.confirm && value !== repeated) {
+        errorEl?.setText("The passphrases don't match.");
+        return;
+      }
+      this.submitted = true;
+      this.onSubmit(value);
+      this.close();
+    };
+
+    const field =
+      (onChange: (v: string) => void, focus = false) =>
+      (text: TextComponent) => {
+        text.inputEl.type = "password";
+        text.onChange(onChange);
+        text.inputEl.addEventListener("keydown", (event) => {
+          if (event.key === "Enter") submit();
+        });
+        if (focus) setTimeout(() => text.inputEl.focus());
+      };
+
+    new Setting(contentEl)
+      .setName("Passphrase")
+      .addText(field((v) => (value = v), true));
+    if (this.confirm) {
+      new Setting(contentEl)
+        .setName("Confirm passphrase")
+        .addText(field((v) => (repeated = v)));
+      errorEl = contentEl.createEl("p", { cls: "mod-warning" });
+    }
+    new Setting(contentEl).addButton((button) =>
+      button.setButtonText("OK").setCta().onClick(submit)
+    );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    if (!this.submitted) this.onSubmit(null);
+  }
+}
+
+/**
+ * SMTP passwords, kept out of the synced plugin settings. Secrets are
+ * encrypted with Electron's safeStorage where the OS keychain is
+ * available, and otherwise with a passphrase asked for once per session.
+ */
+export class CredentialStore {
+  private safeStorage = loadSafeStorage();
+  private passphrase: string | null = null;
+
+  constructor(private app: App) {}
+
+  /** Where secrets saved now end up, for the settings tab. */
+  describe(): string {
+    const where =
+      "Stored in this device's app storage, outside the vault and data.json";
+    return this.safeStorage
+      ? `${where}, encrypted with the system keychain.`
+      : `${where}, encrypted with a passphrase (no system keychain available).`;
+  }
+
+  has(id: string): boolean {
+    return id in this.load();
+  }
+
+  /** Whether reading a secret would ask for the passphrase first. */
+  isLocked(id: string): boolean {
+    return this.load()[id]?.method === "passphrase" && !this.passphrase;
+  }
+
+  async get(id: string): Promise<string> {
+    const secret = this.load()[id];
+    if (!secret) return "";
+
+    if (secret.method === "safe-storage") {
+      if (!this.safeStorage) {
+        throw new Error(
+          "The system keychain is not available to decrypt the SMTP password. Please enter it again."
+        );
+      }
+      return this.safeStorage.decryptString(Buffer.from(secret.data, "base64"));
+    }
+
+    const passphrase = await this.unlock(
+      "Enter the passphrase that protects your SMTP passwords."
+    );
+    try {
+      const key = await deriveKey(passphrase, fromBase64(secret.salt));
+      const plain = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(secret.iv) },
+        key,
+        fromBase64(secret.data)
+      );
+      return new TextDecoder().decode(plain);
+    } catch {
+      this.passphrase = null;
+      throw new Error("Wrong passphrase for the saved SMTP password.");
+    }
+  }
+
+  async set(id: string, value: string): Promise<void> {
+    if (!value) {
+      this.remove(id);
+      return;
+    }
+
+    let secret: StoredSecret;
+    if (this.safeStorage) {
+      const data = this.safeStorage.encryptString(value);
+      secret = { method: "safe-storage", data: data.toString("base64") };
+    } else {
+      const passphrase = await this.choosePassphrase();
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const key = await deriveKey(passphrase, salt);
+      const data = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv },
+        key,
+        new TextEncoder().encode(value)
+      );
+      secret = {
+        method: "passphrase",
+        salt: toBase64(salt),
+        iv: toBase64(iv),
+        data: toBase64(data),
+      };
+    }
+
+    this.save({ ...this.load(), [id]: secret });
+  }
+
+  remove(id: string) {
+    const secrets = this.load();
+    delete secrets[id];
+    this.save(secrets);
+  }
+
+  /** Forget every saved secret and the session's passphrase. */
+  clear() {
+    this.passphrase = null;
+    this.app.saveLocalStorage(STORAGE_KEY, null);
+  }
+
+  private load(): Record<string, StoredSecret> {
+    return Object.assign({}, this.app.loadLocalStorage(STORAGE_KEY));
+  }
+
+  private save(secrets: Record<string, StoredSecret>) {
+    const empty = Object.keys(secrets).length === 0;
+    this.app.saveLocalStorage(STORAGE_KEY, empty ? null : secrets);
+  }
+
+  private async unlock(message: string, confirm = false): Promise<string> {
+    if (this.passphrase) return this.passphrase;
+
+    const passphrase = await new Promise<string | null>((resolve) =>
+      new PassphraseModal(this.app, message, confirm, resolve).open()
+    );
+    if (!passphrase) throw new Error("No passphrase entered.");
+    this.passphrase = passphrase;
+    return passphrase;
+  }
+
+  /**
+   * The passphrase for a new secret. When others are already saved it
+   * must be the one they use, so it is checked against one of them.
+   */
+  private async choosePassphrase(): Promise<string> {
+    const secrets = this.load();
+    const existing = Object.keys(secrets).find(
+      (id) => secrets[id].method === "passphrase"
+    );
+    if (!existing) {
+      return this.unlock(
+        "No system keychain is available, so SMTP passwords are encrypted with a passphrase. Choose one; you'll be asked for it once per session.",
+        true
+      );
+    }
+    await this.get(existing);
+    return this.passphrase as string;
+  }
+}
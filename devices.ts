@@ -0,0 +1,91 @@
+export type PageProfileId =
+  | "kindle-basic"
+  | "paperwhite"
+  | "oasis"
+  | "scribe"
+  | "a4"
+  | "letter"
+  | "custom";
+
+/** Page geometry for one target device. Lengths are in millimetres. */
+export interface PageProfile {
+  name: string;
+  width: number;
+  height: number;
+  margin: number;
+  fontSize: number;
+}
+
+// Kindle sizes are the active screen area (pixels ÷ 300 ppi), so a page
+// fills the display without the reader having to zoom.
+export const PAGE_PROFILES: Record<
+  Exclude<PageProfileId, "custom">,
+  PageProfile
+> = {
+  "kindle-basic": {
+    name: "Kindle Basic (6″)",
+    width: 90.8,
+    height: 122.6,
+    margin: 4,
+    fontSize: 13,
+  },
+  paperwhite: {
+    name: "Kindle Paperwhite (6.8″)",
+    width: 104.6,
+    height: 139.5,
+    margin: 5,
+    fontSize: 14,
+  },
+  oasis: {
+    name: "Kindle Oasis (7″)",
+    width: 107,
+    height: 142.2,
+    margin: 5,
+    fontSize: 14,
+  },
+  scribe: {
+    name: "Kindle Scribe (10.2″)",
+    width: 157.5,
+    height: 210,
+    margin: 8,
+    fontSize: 15,
+  },
+  a4: { name: "A4", width: 210, height: 297, margin: 10.6, fontSize: 14 },
+  letter: {
+    name: "Letter",
+    width: 215.9,
+    height: 279.4,
+    margin: 10.6,
+    fontSize: 14,
+  },
+};
+
+export interface PageProfileSettings {
+  pageProfile: PageProfileId;
+  customPageWidth: number;
+  customPageHeight: number;
+  /** Overrides the profile's margin when above 0 (in mm). */
+  pageMargin: number;
+}
+
+export function resolvePageProfile(settings: PageProfileSettings): PageProfile {
+  const profile: PageProfile =
+    settings.pageProfile === "custom"
+      ? {
+          name: "Custom",
+          width: settings.customPageWidth,
+          height: settings.customPageHeight,
+          margin: 5,
+          fontSize: 14,
+        }
+      : PAGE_PROFILES[settings.pageProfile] || PAGE_PROFILES.letter;
+
+  if (settings.pageMargin > 0) {
+    return { ...profile, margin: settings.pageMargin };
+  }
+  return profile;
+}
+
+export function mmToInches(mm: number): number {
+  return mm / 25.4;
+}
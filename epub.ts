@@ -0,0 +1,195 @@
+import { strToU8, zipSync, Zippable } from "fflate";
+import * as crypto from "crypto";
+import { escapeHtml } from "./markup";
+import { HeadingIds, TocEntry, buildTocTree, renderTocList } from "./toc";
+
+export interface EpubMetadata {
+  title: string;
+  author: string;
+  language: string;
+  description?: string;
+  /** Publication date, as written in the note. */
+  date?: string;
+}
+
+const IMAGE_EXTENSIONS_BY_MIME: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/svg+xml": "svg",
+};
+
+// ── Images ────────────────────────────────────────────────────────
+
+/**
+ * Move every base64 data URI image out of the document and into the
+ * archive, rewriting the src to point at the stored resource.
+ * Identical images are stored once. The cover page's image is marked
+ * as the book's cover.
+ */
+function extractImages(doc: Document, files: Zippable): string[] {
+  const manifest: string[] = [];
+  const stored = new Map<string, string>();
+
+  const cover = doc.querySelector(".kindle-pdf-cover img");
+  doc.querySelectorAll("img").forEach((img) => {
+    const src = img.getAttribute("src") || "";
+    const match = src.match(/^data:([^;,]+);base64,([\s\S]*)$/);
+    if (!match) return;
+
+    let href = stored.get(src);
+    if (!href) {
+      const mime = match[1];
+      const ext = IMAGE_EXTENSIONS_BY_MIME[mime] || mime.split("/")[1];
+      const id = `image-${stored.size + 1}`;
+      href = `images/${id}.${ext}`;
+      files[`OEBPS/${href}`] = new Uint8Array(Buffer.from(match[2], "base64"));
+      const props = img === cover ? ' properties="cover-image"' : "";
+      manifest.push(
+        `<item id="${id}" href="${href}" media-type="${escapeHtml(
+          mime
+        )}"${props}/>`
+      );
+      stored.set(src, href);
+    }
+    img.setAttribute("src", href);
+  });
+
+  return manifest;
+}
+
+// ── Navigation ────────────────────────────────────────────────────
+
+/**
+ * Build the heading tree for the nav document, assigning an id to
+ * every H1–H3 that doesn't already have a unique one.
+ */
+function collectHeadings(doc: Document): TocEntry[] {
+  const ids = new HeadingIds();
+  const headings: TocEntry[] = [];
+
+  doc.body.querySelectorAll("h1, h2, h3").forEach((heading) => {
+    const text = (heading.textContent || "").trim();
+    let id = heading.getAttribute("id");
+    if (!id || ids.has(id)) {
+      id = ids.next(text);
+      heading.setAttribute("id", id);
+    } else {
+      ids.reserve(id);
+    }
+
+    headings.push({
+      id,
+      text,
+      level: parseInt(heading.tagName.substring(1)),
+      children: [],
+    });
+  });
+
+  return buildTocTree(headings);
+}
+
+// ── Package ───────────────────────────────────────────────────────
+
+/**
+ * Package a standalone HTML document (as produced by markdownToHtml)
+ * into an EPUB 3 archive.
+ * - Inline <style> blocks → style.css
+ * - Base64 images → separate resources under images/
+ * - H1–H3 headings → nav document
+ */
+export function buildEpub(html: string, meta: EpubMetadata): Buffer {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const files: Zippable = {};
+
+  // The mimetype entry must come first and be stored uncompressed
+  files["mimetype"] = [strToU8("application/epub+zip"), { level: 0 }];
+  files["META-INF/container.xml"] =
+    strToU8(`<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`);
+
+  const css = Array.from(doc.querySelectorAll("style"))
+    .map((style) => style.textContent || "")
+    .join("\n");
+  // Reading systems supply their own page margins
+  files["OEBPS/style.css"] = strToU8(`${css}\nbody { padding: 0; }\n`);
+
+  const imageItems = extractImages(doc, files);
+  const headings = collectHeadings(doc);
+  const title = escapeHtml(meta.title);
+  const lang = escapeHtml(meta.language || "en");
+
+  const body = new XMLSerializer().serializeToString(doc.body);
+  files["OEBPS/content.xhtml"] = strToU8(`<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${lang}" xml:lang="${lang}">
+<head>
+<meta charset="utf-8"/>
+<title>${title}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+${body}
+</html>`);
+
+  const navList = headings.length
+    ? renderTocList(headings, (id) => `content.xhtml#${id}`)
+    : `<ol><li><a href="content.xhtml">${title}</a></li></ol>`;
+  files["OEBPS/nav.xhtml"] = strToU8(`<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${lang}" xml:lang="${lang}">
+<head>
+<meta charset="utf-8"/>
+<title>${title}</title>
+</head>
+<body>
+<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+${navList}
+</nav>
+</body>
+</html>`);
+
+  // Reading systems need to know up front about inline SVG and MathML
+  const contentProps = [
+    doc.body.querySelector("svg") ? "svg" : "",
+    doc.body.querySelector("math") ? "mathml" : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+  const optional = [
+    ["creator", meta.author],
+    ["description", meta.description],
+    // EPUB only accepts ISO 8601 dates
+    ["date", /^\d{4}(-\d\d){0,2}$/.test(meta.date ?? "") ? meta.date : ""],
+  ]
+    .filter(([, value]) => value)
+    .map(([tag, value]) => `\n    <dc:${tag}>${escapeHtml(value!)}</dc:${tag}>`)
+    .join("");
+
+  files["OEBPS/content.opf"] = strToU8(`<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${lang}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${crypto.randomUUID()}</dc:identifier>
+    <dc:title>${title}</dc:title>${optional}
+    <dc:language>${lang}</dc:language>
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="content" href="content.xhtml" media-type="application/xhtml+xml"${
+      contentProps ? ` properties="${contentProps}"` : ""
+    }/>
+    <item id="css" href="style.css" media-type="text/css"/>
+    ${imageItems.join("\n    ")}
+  </manifest>
+  <spine>
+    <itemref idref="content"/>
+  </spine>
+</package>`);
+
+  return Buffer.from(zipSync(files));
+}
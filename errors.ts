@@ -0,0 +1,135 @@
+/** A failure described for people rather than for logs. */
+export interface ErrorExplanation {
+  message: string;
+  /** What to try next, when there is something to suggest. */
+  hint?: string;
+}
+
+// Fields nodemailer and Node's socket errors add to Error
+interface MailError extends Error {
+  code?: string;
+  command?: string;
+  responseCode?: number;
+  response?: string;
+  hostname?: string;
+  address?: string;
+  port?: number;
+}
+
+const CERTIFICATE_CODES = [
+  "CERT_HAS_EXPIRED",
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "SELF_SIGNED_CERT_IN_CHAIN",
+  "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+  "ERR_TLS_CERT_ALTNAME_INVALID",
+];
+
+// Kindle's limit for one personal document email
+const KINDLE_SIZE_LIMIT = "50 MB";
+
+/**
+ * Whether sending again can't help until the settings change: the
+ * server rejected the login, the sender or a recipient, or the size.
+ */
+export function isPermanentError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const err = error as MailError;
+  const text = `${err.message} ${err.response ?? ""}`;
+  return (
+    /invalid_grant|invalid_client|unauthorized_client/.test(text) ||
+    err.code === "EAUTH" ||
+    err.code === "EENVELOPE" ||
+    err.responseCode === 535 ||
+    err.responseCode === 552
+  );
+}
+
+/**
+ * Turn an export or SMTP error into a plain explanation with a
+ * suggested fix. Errors that aren't recognised keep their own message.
+ */
+export function explainError(error: unknown): ErrorExplanation {
+  if (!(error instanceof Error)) return { message: String(error) };
+
+  const err = error as MailError;
+  const text = `${err.message} ${err.response ?? ""}`;
+  const server = err.hostname || err.address || "the SMTP server";
+
+  if (err.code === "EDNS" || /ENOTFOUND|EAI_AGAIN|getaddrinfo/.test(text)) {
+    return {
+      message: `Couldn't find ${server}.`,
+      hint: "Check the SMTP host for typos, and that this device is online.",
+    };
+  }
+
+  if (/ECONNREFUSED/.test(text)) {
+    return {
+      message: `${server} refused the connection${
+        err.port ? ` on port ${err.port}` : ""
+      }.`,
+      hint: "Check the SMTP port: 587 is usually STARTTLS and 465 SSL/TLS.",
+    };
+  }
+
+  if (err.code === "ETIMEDOUT" || /ETIMEDOUT|Greeting never/.test(text)) {
+    return {
+      message: "The SMTP server did not answer in time.",
+      hint: "A firewall or network may be blocking the port. Check the host, and try port 587 or 465.",
+    };
+  }
+
+  if (
+    CERTIFICATE_CODES.includes(err.code ?? "") ||
+    /certificate/i.test(err.message)
+  ) {
+    return {
+      message: "The SMTP server's TLS certificate was not accepted.",
+      hint: "Check that the SMTP host is the server's real name (e.g. smtp.gmail.com, not an IP address).",
+    };
+  }
+
+  if (/wrong version number|SSL routines|packet length too long/i.test(text)) {
+    return {
+      message:
+        "The server didn't answer with TLS the way the Security setting expects.",
+      hint: "Use SSL/TLS with port 465 and STARTTLS with port 587.",
+    };
+  }
+
+  if (err.code === "ETLS" || /STARTTLS/i.test(text)) {
+    return {
+      message: "The SMTP server doesn't offer STARTTLS on this port.",
+      hint: "Try SSL/TLS on port 465. Only use no encryption for a local relay.",
+    };
+  }
+
+  if (/invalid_grant|invalid_client|unauthorized_client/.test(text)) {
+    return {
+      message: "The OAuth2 provider rejected the client or refresh token.",
+      hint: "Check the client ID, client secret and token URL, or create a new refresh token.",
+    };
+  }
+
+  if (err.code === "EAUTH" || err.responseCode === 535) {
+    return {
+      message: "The SMTP server rejected the username or password.",
+      hint: "Use your full email address as the SMTP user. Gmail, Outlook and iCloud need an app password or OAuth2 rather than your account password.",
+    };
+  }
+
+  if (err.responseCode === 552 || /message size|too large/i.test(text)) {
+    return {
+      message: "The document is too large for the mail server.",
+      hint: `Kindle accepts up to ${KINDLE_SIZE_LIMIT} per email, and many mail servers less. Try EPUB or fewer images.`,
+    };
+  }
+
+  if (err.code === "EENVELOPE") {
+    return {
+      message: "The mail server rejected the sender or a recipient.",
+      hint: "The sender email must be an address your SMTP account may send from. Check the Kindle emails for typos.",
+    };
+  }
+
+  return { message: err.message };
+}
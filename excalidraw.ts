@@ -0,0 +1,46 @@
+import { App, TFile } from "obsidian";
+
+/** The part of the Excalidraw plugin's scripting API used here. */
+interface ExcalidrawAutomate {
+  getAPI?: () => ExcalidrawAutomate;
+  reset(): void;
+  createSVG(
+    templatePath?: string,
+    embedFont?: boolean,
+    exportSettings?: { withBackground?: boolean; withTheme?: boolean }
+  ): Promise<SVGSVGElement>;
+}
+
+/**
+ * Whether a note is an Excalidraw drawing: named `.excalidraw.md`, or
+ * marked as one in its frontmatter. Its markdown holds the drawing's
+ * data, not something to read.
+ */
+export function isExcalidraw(app: App, file: TFile): boolean {
+  if (file.extension !== "md") return false;
+  if (file.name.toLowerCase().endsWith(".excalidraw.md")) return true;
+  const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+  return frontmatter?.["excalidraw-plugin"] !== undefined;
+}
+
+/**
+ * Draw an Excalidraw drawing as SVG markup, with the Excalidraw plugin,
+ * which must be installed and enabled. Fonts are embedded and the
+ * drawing keeps its background but not the dark theme.
+ */
+export async function renderExcalidraw(file: TFile): Promise<string> {
+  const automate = (window as any).ExcalidrawAutomate as
+    | ExcalidrawAutomate
+    | undefined;
+  if (!automate) throw new Error("the Excalidraw plugin isn't enabled");
+
+  // Newer versions hand out an instance per caller
+  const ea = automate.getAPI?.() ?? automate;
+  ea.reset();
+  const svg = await ea.createSVG(file.path, true, {
+    withBackground: true,
+    withTheme: false,
+  });
+  svg.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  return svg.outerHTML;
+}
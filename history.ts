@@ -0,0 +1,258 @@
+import {
+  App,
+  Events,
+  ItemView,
+  Modal,
+  Notice,
+  Setting,
+  TFile,
+  WorkspaceLeaf,
+  normalizePath,
+} from "obsidian";
+import type KindlePdfPlugin from "./main";
+import { formatSize } from "./outbox";
+
+export const VIEW_TYPE_KINDLE_HISTORY = "kindle-pdf-history";
+
+// Oldest entries are dropped beyond this
+const MAX_ENTRIES = 500;
+
+export type SendResult = "sent" | "queued";
+
+/**
+ * One document sent (or queued in the outbox) to a delivery profile,
+ * with all its parts when it was sent in several.
+ */
+export interface HistoryEntry {
+  /** Path of the note, empty for folder and tag books. */
+  path: string;
+  title: string;
+  /** SHA-256 of the note's content, to spot unchanged resends. */
+  hash: string;
+  /** Set when only part of the note was sent: its title and markdown. */
+  excerpt?: { title: string; markdown: string };
+  timestamp: number;
+  profileId: string;
+  profileName: string;
+  /** Of all the parts together. */
+  size: number;
+  /** How many emails the document was sent in. */
+  parts?: number;
+  /** The outbox items of the parts that still wait to be sent. */
+  pending?: string[];
+  /** "sent" once every part has gone out. */
+  result: SendResult;
+}
+
+export async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(content)
+  );
+  return Buffer.from(digest).toString("hex");
+}
+
+/**
+ * The log of sent documents, stored in the plugin folder. Triggers
+ * "change" whenever an entry is added or the log is cleared.
+ */
+export class SendHistory extends Events {
+  private entries: HistoryEntry[] = [];
+
+  constructor(private app: App, private path: string) {
+    super();
+  }
+
+  async load() {
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(this.path))) return;
+    try {
+      this.entries = JSON.parse(await adapter.read(this.path));
+    } catch (error) {
+      console.warn("Kindle PDF: unreadable send history", error);
+      // Keep it, as the next send would overwrite it
+      const backup = `${this.path}.${Date.now()}.bak`;
+      await adapter.rename(this.path, backup);
+      new Notice(
+        `The Kindle send history couldn't be read and starts empty. The old file was kept as "${backup}".`
+      );
+      this.entries = [];
+    }
+  }
+
+  /** Entries, newest first. */
+  list(): HistoryEntry[] {
+    return this.entries.slice().reverse();
+  }
+
+  /** The last successful send of a whole note with a profile. */
+  lastSent(path: string, profileId: string): HistoryEntry | null {
+    return (
+      this.list().find(
+        (e) =>
+          e.path === path &&
+          e.profileId === profileId &&
+          e.result === "sent" &&
+          !e.excerpt
+      ) || null
+    );
+  }
+
+  async add(entry: HistoryEntry) {
+    this.entries.push(entry);
+    this.entries = this.entries.slice(-MAX_ENTRIES);
+    await this.save();
+  }
+
+  /**
+   * Note that an outbox item was sent. Its document counts as sent, at
+   * that time, once none of its parts wait any more. Resolves to the
+   * entry, or null when no entry waits for the item.
+   */
+  async delivered(itemId: string): Promise<HistoryEntry | null> {
+    const entry = this.entries.find((e) => e.pending?.includes(itemId));
+    if (!entry?.pending) return null;
+
+    entry.pending = entry.pending.filter((id) => id !== itemId);
+    if (!entry.pending.length) {
+      delete entry.pending;
+      entry.result = "sent";
+      entry.timestamp = Date.now();
+    }
+    await this.save();
+    return entry;
+  }
+
+  async clear() {
+    this.entries = [];
+    await this.save();
+  }
+
+  private async save() {
+    await this.app.vault.adapter.write(
+      normalizePath(this.path),
+      JSON.stringify(this.entries, null, 2)
+    );
+    this.trigger("change");
+  }
+}
+
+class ResendModal extends Modal {
+  private confirmed = false;
+
+  constructor(
+    app: App,
+    private message: string,
+    private onResult: (confirmed: boolean) => void
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h2", { text: "Already sent" });
+    contentEl.createEl("p", { text: this.message });
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText("Send again")
+          .setCta()
+          .onClick(() => {
+            this.confirmed = true;
+            this.close();
+          })
+      )
+      .addButton((button) =>
+        button.setButtonText("Cancel").onClick(() => this.close())
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.onResult(this.confirmed);
+  }
+}
+
+/** Ask whether to send a note again that hasn't changed since. */
+export function confirmResend(app: App, entry: HistoryEntry): Promise<boolean> {
+  const when = new Date(entry.timestamp).toLocaleString();
+  const message = `"${entry.title}" hasn't changed since it was sent to ${entry.profileName} on ${when}.`;
+  return new Promise((resolve) =>
+    new ResendModal(app, message, resolve).open()
+  );
+}
+
+/** Lists sent documents, newest first, with resend and open actions. */
+export class HistoryView extends ItemView {
+  constructor(leaf: WorkspaceLeaf, private plugin: KindlePdfPlugin) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_KINDLE_HISTORY;
+  }
+
+  getDisplayText(): string {
+    return "Kindle send history";
+  }
+
+  getIcon(): string {
+    return "history";
+  }
+
+  async onOpen() {
+    this.contentEl.addClass("kindle-pdf-history");
+    this.addAction("trash", "Clear history", () => this.plugin.history.clear());
+    this.registerEvent(this.plugin.history.on("change", () => this.render()));
+    this.render();
+  }
+
+  render() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const entries = this.plugin.history.list();
+    if (!entries.length) {
+      contentEl.createDiv({
+        text: "Nothing has been sent yet.",
+        cls: "kindle-pdf-history-empty",
+      });
+      return;
+    }
+
+    for (const entry of entries) {
+      const file = this.app.vault.getAbstractFileByPath(entry.path);
+      const row = contentEl.createDiv("kindle-pdf-history-item");
+      row.createDiv({ text: entry.title, cls: "kindle-pdf-history-name" });
+      const parts = entry.parts ?? 1;
+      row.createDiv({
+        text: `${new Date(entry.timestamp).toLocaleString()} · ${
+          entry.profileName
+        } · ${formatSize(entry.size)}${parts > 1 ? ` · ${parts} parts` : ""}`,
+        cls: "kindle-pdf-history-meta",
+      });
+      const waiting = entry.pending?.length ?? parts;
+      row.createDiv({
+        text:
+          entry.result === "sent"
+            ? "Sent"
+            : parts > 1
+            ? `${waiting} of ${parts} parts queued in the outbox`
+            : "Queued in the outbox",
+        cls: `kindle-pdf-history-result is-${entry.result}`,
+      });
+
+      if (!(file instanceof TFile)) continue;
+      const actions = row.createDiv("kindle-pdf-history-actions");
+      actions
+        .createEl("button", { text: "Resend" })
+        .addEventListener("click", () => this.plugin.resend(entry));
+      actions
+        .createEl("button", { text: "Open note" })
+        .addEventListener("click", () =>
+          this.app.workspace.getLeaf().openFile(file)
+        );
+    }
+  }
+}
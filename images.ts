@@ -0,0 +1,159 @@
+import { PageProfile } from "./devices";
+
+// Kindle screens are 300 ppi
+const DEVICE_PPI = 300;
+const JPEG_QUALITY = 0.8;
+
+const DATA_URI_RE =
+  /data:(image\/(?:png|jpeg|gif|bmp|webp));base64,([A-Za-z0-9+/=]+)/g;
+
+export interface ImageOptions {
+  /** Largest size that is still sharp on the device, in pixels. */
+  maxWidth: number;
+  maxHeight: number;
+  grayscale: boolean;
+}
+
+/** The pixel size of a page's content area on the device. */
+export function deviceImageSize(
+  page: PageProfile
+): Pick<ImageOptions, "maxWidth" | "maxHeight"> {
+  const px = (mm: number) => Math.round((mm / 25.4) * DEVICE_PPI);
+  return {
+    maxWidth: px(page.width - 2 * page.margin),
+    maxHeight: px(page.height - 2 * page.margin),
+  };
+}
+
+/** Image types Kindle can't show, converted to PNG when embedded. */
+export const CONVERTED_IMAGE_TYPES: Record<string, string> = {
+  webp: "image/webp",
+  avif: "image/avif",
+  heic: "image/heic",
+  heif: "image/heif",
+};
+
+// Chromium can't decode these itself
+const HEIC_TYPES = ["image/heic", "image/heif"];
+
+interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray<ArrayBuffer>;
+}
+
+type HeicDecoder = (image: { buffer: Uint8Array }) => Promise<DecodedImage>;
+
+/**
+ * Decode a HEIC image with libheif compiled to wasm, which is only
+ * loaded the first time as it is large.
+ */
+async function decodeHeic(data: ArrayBuffer): Promise<ImageBitmap> {
+  const decode: HeicDecoder = require("heic-decode");
+  const image = await decode({ buffer: new Uint8Array(data) });
+  return createImageBitmap(
+    new ImageData(image.data, image.width, image.height)
+  );
+}
+
+/**
+ * Decode an image and encode it again as PNG, which keeps any
+ * transparency. Throws if the image can't be decoded.
+ */
+export async function convertToPng(
+  data: ArrayBuffer,
+  mime: string
+): Promise<Buffer> {
+  const bitmap = HEIC_TYPES.includes(mime)
+    ? await decodeHeic(data)
+    : await createImageBitmap(new Blob([data], { type: mime }));
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/png")
+  );
+  if (!blob) throw new Error("Could not encode the image as PNG.");
+  return Buffer.from(await blob.arrayBuffer());
+}
+
+/**
+ * Downscale one image to fit `options` and recompress it as JPEG on a
+ * white background. Returns null if that doesn't make it smaller.
+ */
+async function optimizeImage(
+  data: Buffer,
+  mime: string,
+  options: ImageOptions
+): Promise<Buffer | null> {
+  const bitmap = await createImageBitmap(
+    new Blob([new Uint8Array(data)], { type: mime })
+  );
+  const scale = Math.min(
+    1,
+    options.maxWidth / bitmap.width,
+    options.maxHeight / bitmap.height
+  );
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  // JPEG has no transparency, so transparent areas would turn black
+  ctx.fillStyle = "white";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  if (options.grayscale) ctx.filter = "grayscale(1)";
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY)
+  );
+  if (!blob || blob.size >= data.byteLength) return null;
+  return Buffer.from(await blob.arrayBuffer());
+}
+
+/**
+ * Shrink the base64 images embedded in an HTML document. Images that
+ * can't be decoded, or don't get smaller, are left as they are. SVG is
+ * never touched.
+ */
+export async function optimizeImages(
+  html: string,
+  options: ImageOptions,
+  onProgress: (done: number, total: number) => void = () => {}
+): Promise<string> {
+  const images = new Map<string, { mime: string; base64: string }>();
+  for (const [uri, mime, base64] of html.matchAll(DATA_URI_RE)) {
+    images.set(uri, { mime, base64 });
+  }
+
+  const replacements = new Map<string, string>();
+  let done = 0;
+  for (const [uri, { mime, base64 }] of images) {
+    onProgress(done++, images.size);
+    try {
+      const smaller = await optimizeImage(
+        Buffer.from(base64, "base64"),
+        mime,
+        options
+      );
+      if (smaller) {
+        replacements.set(
+          uri,
+          `data:image/jpeg;base64,${smaller.toString("base64")}`
+        );
+      }
+    } catch (error) {
+      console.warn("Kindle PDF: could not optimize image", error);
+    }
+  }
+
+  if (!replacements.size) return html;
+  return html.replace(DATA_URI_RE, (uri) => replacements.get(uri) ?? uri);
+}
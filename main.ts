@@ -1,37 +1,387 @@
-import { Modal, Notice, Plugin, TFile, App } from "obsidian";
-import { marked } from "marked";
+import {
+  Editor,
+  Modal,
+  Notice,
+  Plugin,
+  TFile,
+  TFolder,
+  App,
+  moment,
+  normalizePath,
+  parseLinktext,
+  resolveSubpath,
+} from "obsidian";
+import { Marked } from "marked";
 import * as nodemailer from "nodemailer";
 import {
   KindlePdfSettings,
   KindlePdfSettingTab,
   DEFAULT_SETTINGS,
+  OutputFormat,
+  OverwritePolicy,
 } from "./settings";
+import { buildEpub } from "./epub";
+import { CredentialStore } from "./credentials";
+import { explainError } from "./errors";
+import {
+  PageProfile,
+  PageProfileId,
+  mmToInches,
+  resolvePageProfile,
+} from "./devices";
+import {
+  DeliveryProfile,
+  ProfileSecret,
+  ProfileSuggestModal,
+  findProfile,
+  secretId,
+  takeLegacyProfile,
+  upgradeProfile,
+} from "./profiles";
+import { AccessToken, supportsOAuth2, transportOptions } from "./smtp";
+import {
+  CONVERTED_IMAGE_TYPES,
+  convertToPng,
+  deviceImageSize,
+  optimizeImages,
+} from "./images";
+import { parsePageRange, renderPdfPages } from "./pdfpages";
+import { prependToBody, splitHtml } from "./split";
+import { KindlePreviewView, VIEW_TYPE_KINDLE_PREVIEW } from "./preview";
+import {
+  Outbox,
+  OutboxItem,
+  OutboxSource,
+  OutboxView,
+  VIEW_TYPE_KINDLE_OUTBOX,
+} from "./outbox";
+import {
+  HistoryEntry,
+  HistoryView,
+  SendHistory,
+  VIEW_TYPE_KINDLE_HISTORY,
+  confirmResend,
+  hashContent,
+} from "./history";
+import { AutoSender } from "./autosend";
+import { sectionAt } from "./sections";
+import { DocumentMetadata, applyNoteOverrides, readMetadata } from "./metadata";
+import { PdfInfo, setPdfInfo } from "./pdfinfo";
+import { RemoteImageFetcher, parseDomainList } from "./remote";
+import {
+  cardMarkdown,
+  fitCanvasCards,
+  isExportable,
+  linearCanvas,
+  parseCanvas,
+  renderCanvas,
+} from "./canvas";
+import { isExcalidraw, renderExcalidraw } from "./excalidraw";
+import {
+  CustomDestination,
+  DocumentResult,
+  ExportHooks,
+  ExportResult,
+  ExportedDocument,
+  KindlePdfApi,
+  ProcessorContext,
+  RenderResult,
+  StageTimer,
+} from "./api";
+import { FENCE_RE, escapeHtml } from "./markup";
+import { ObsidianSyntax, noteAnchor, scopeFootnotes } from "./syntax";
+import { mathExtension } from "./math";
+import { codeExtension } from "./code";
+import { ThemeId, buildStylesheet, findTheme } from "./themes";
+import { renderMermaidBlocks } from "./mermaid";
+import {
+  HeadingIds,
+  TocEntry,
+  buildTocTree,
+  htmlToText,
+  renderTocList,
+} from "./toc";
+import {
+  FolderSuggestModal,
+  TagSuggestModal,
+  collectFolderNotes,
+  collectTaggedNotes,
+  sortNotes,
+} from "./batch";
 
 import * as path from "path";
 import * as os from "os";
 import * as fs from "fs";
 
-const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "svg", "bmp"];
+const IMAGE_EXTENSIONS = [
+  "png",
+  "jpg",
+  "jpeg",
+  "gif",
+  "svg",
+  "bmp",
+  ...Object.keys(CONVERTED_IMAGE_TYPES),
+];
+const AUDIO_EXTENSIONS = ["mp3", "wav", "m4a", "ogg", "flac", "3gp"];
+const VIDEO_EXTENSIONS = ["mp4", "webm", "ogv", "mov", "mkv"];
+
+/**
+ * A web image's file name and host, for its placeholder; the address
+ * itself if it can't be parsed.
+ */
+function remoteImageLabel(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  const name = parsed.pathname.split("/").pop() ?? "";
+  return name ? `${name} from ${parsed.hostname}` : parsed.hostname;
+}
+
+/** What to call an attachment that is shown as a placeholder. */
+function attachmentKind(ext: string): string {
+  if (IMAGE_EXTENSIONS.includes(ext)) return "Image";
+  if (AUDIO_EXTENSIONS.includes(ext)) return "Audio";
+  if (VIDEO_EXTENSIONS.includes(ext)) return "Video";
+  if (ext === "pdf") return "PDF";
+  if (ext === "canvas") return "Canvas";
+  return "Attachment";
+}
+
+function imageMime(ext: string): string {
+  if (ext === "svg") return "image/svg+xml";
+  return `image/${ext === "jpg" ? "jpeg" : ext}`;
+}
+
+// ![[wikilink]] embeds and ![alt](path) images
+// Inline code spans are matched too, so embeds inside them stay as they are.
+// Image paths may hold balanced parentheses, as in "image (1).png".
+const EMBED_RE =
+  /(`+)[\s\S]*?(?<!`)\1(?!`)|!\[\[([^\]]+)\]\]|!\[([^\]]*)\]\(((?:[^()\n]|\([^()\n]*\))+)\)/g;
+
+interface ImageSize {
+  width: number;
+  height?: number;
+}
+
+/** The size in `![[image.png|300]]` or `|300x200`, if that's what it is. */
+function parseImageSize(display: string): ImageSize | null {
+  const match = display.trim().match(/^(\d+)(?:x(\d+))?$/);
+  if (!match) return null;
+  return {
+    width: parseInt(match[1]),
+    height: match[2] ? parseInt(match[2]) : undefined,
+  };
+}
+
+/** `String.replace` with an async replacer, run one match at a time. */
+async function replaceAsync(
+  text: string,
+  re: RegExp,
+  replace: (match: string, ...groups: (string | undefined)[]) => Promise<string>
+): Promise<string> {
+  let result = "";
+  let last = 0;
+  for (const match of text.matchAll(re)) {
+    const index = match.index ?? 0;
+    result += text.slice(last, index);
+    result += await replace(match[0], ...match.slice(1));
+    last = index + match[0].length;
+  }
+  return result + text.slice(last);
+}
+
+const MIME_TYPES: Record<OutputFormat, string> = {
+  pdf: "application/pdf",
+  epub: "application/epub+zip",
+};
+
+function isOutputFormat(value: string): value is OutputFormat {
+  return Object.prototype.hasOwnProperty.call(MIME_TYPES, value);
+}
+
+interface RenderOptions {
+  /** The note being exported, for per-note frontmatter settings. */
+  sourceFile?: TFile;
+  /** Overrides the page profile from the settings. */
+  pageProfile?: PageProfileId;
+  /** Title, author etc. for the document head and the cover page. */
+  metadata?: DocumentMetadata;
+  /** The output format, the one in the settings by default. */
+  format?: OutputFormat;
+  onWarning?: (message: string) => void;
+}
+
+interface EmbedOptions {
+  /**
+   * The notes (and sections) being expanded, so an embed that would
+   * include itself is left as a plain link.
+   */
+  visiting?: Set<string>;
+  /** Downloads remote images; without it they are kept as links. */
+  remote?: RemoteImageFetcher;
+  /** Told about embeds that became placeholders or are incomplete. */
+  onWarning?: (message: string) => void;
+  /** Canvases keep their layout in PDFs and are read in order in EPUBs. */
+  format?: OutputFormat;
+}
+
+/** How sending the parts of a document went. */
+interface Delivery {
+  /** The errors of the parts that weren't sent. */
+  failures: unknown[];
+  /** The outbox items those parts were saved to. */
+  queued: string[];
+}
+
+/** One document to deliver; oversized sends are split into several. */
+interface ExportPart {
+  title: string;
+  output: Buffer;
+}
+
+/** A part of a document being split, with the HTML it is made from. */
+interface SplitPart extends ExportPart {
+  doc: string;
+}
+
+interface ExportJob {
+  title: string;
+  /** Set when the document is a single note. */
+  sourceFile?: TFile;
+  /** From the note's frontmatter; defaults to the title and settings. */
+  metadata?: DocumentMetadata;
+  /**
+   * Produce the markdown with all embeds resolved (stage 0), using the
+   * export's `embeds` options.
+   */
+  loadContent: (
+    reporter: ExportReporter,
+    embeds: EmbedOptions
+  ) => Promise<string>;
+  /** A built-in destination or the id of a custom one. */
+  destination?: string;
+  /** How the document is sent, when the destination is "kindle". */
+  profile?: DeliveryProfile;
+  /** Hash of the note's content, recorded in the send history. */
+  hash?: string;
+  /** Set when only part of the note is sent, to send it again. */
+  excerpt?: Excerpt;
+  /** Report with notices instead of the progress modal. */
+  silent?: boolean;
+}
+
+/** Part of a note to send on its own: a selection or a section. */
+interface Excerpt {
+  title: string;
+  markdown: string;
+}
+
+/** Options for sending a note or a set of notes. */
+export interface SendOptions {
+  /** Ask before sending a note that hasn't changed since it was sent. */
+  warnUnchanged?: boolean;
+  /** Run in the background, reporting with notices only. */
+  silent?: boolean;
+}
+
+const PAGE_BREAK = '<div class="kindle-pdf-page-break"></div>';
 
 function sleep(ms = 0): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+function stripFrontmatter(content: string): string {
+  if (content.startsWith("---")) {
+    const endIdx = content.indexOf("---", 3);
+    if (endIdx !== -1) {
+      return content.substring(endIdx + 3).trimStart();
+    }
+  }
+  return content;
+}
+
+/**
+ * Pick the filename for a new export. With the "version" policy an
+ * existing "Note.pdf" leads to "Note 1.pdf", "Note 2.pdf", …
+ */
+async function pickFilename(
+  dir: string,
+  filename: string,
+  policy: OverwritePolicy,
+  exists: (path: string) => boolean | Promise<boolean>
+): Promise<string> {
+  const target = (name: string) => (dir ? `${dir}/${name}` : name);
+  if (policy === "overwrite" || !(await exists(target(filename)))) {
+    return target(filename);
+  }
+
+  const ext = path.extname(filename);
+  const base = filename.substring(0, filename.length - ext.length);
+  for (let n = 1; ; n++) {
+    const candidate = target(`${base} ${n}${ext}`);
+    if (!(await exists(candidate))) return candidate;
+  }
+}
+
+/**
+ * Keep headings deeper than `depth` out of the PDF outline. Chromium
+ * builds the outline from the accessibility tree, so those headings
+ * drop their heading role but keep their tag and look.
+ */
+function limitOutline(html: string, depth: number): string {
+  return html.replace(/<h([1-6])(?=[\s>])/g, (tag, level: string) =>
+    Number(level) > depth ? `${tag} role="none"` : tag
+  );
+}
+
+/** Replace characters that aren't allowed in attachment filenames. */
+function safeFilename(name: string): string {
+  return name.replace(/[\\/:*?"<>|]/g, "-");
+}
+
 // ── Progress Modal ────────────────────────────────────────────────
 
-const EXPORT_STAGES = [
-  "Resolving embeds",
-  "Converting to HTML",
-  "Generating PDF",
-  "Sending to Kindle",
-] as const;
+type Destination = "kindle" | "vault" | "file";
+
+const DESTINATION_STAGES: Record<Destination, string> = {
+  kindle: "Sending to Kindle",
+  vault: "Saving to vault",
+  file: "Writing file",
+};
+
+function exportStages(format: OutputFormat, deliverStage: string): string[] {
+  return [
+    "Resolving embeds",
+    "Converting to HTML",
+    `Generating ${format.toUpperCase()}`,
+    deliverStage,
+  ];
+}
+
+/** Where an export reports its progress. */
+interface ExportReporter {
+  setStage(index: number): void;
+  /** Show a progress note (e.g. "3 / 12") next to the active stage. */
+  setDetail(text: string): void;
+  addWarning(message: string): void;
+  setDone(message?: string): void;
+  setError(error: unknown, note?: string): void;
+}
 
-class ExportProgressModal extends Modal {
+class ExportProgressModal extends Modal implements ExportReporter {
   private stageEls: HTMLElement[] = [];
   private currentStage = -1;
   private errorMsg: string | null = null;
+  private warningsEl: HTMLElement | null = null;
 
-  constructor(app: App, private filename: string) {
+  constructor(
+    app: App,
+    private filename: string,
+    private stages: string[]
+  ) {
     super(app);
   }
 
@@ -43,7 +393,7 @@ class ExportProgressModal extends Modal {
 
     const stagesContainer = contentEl.createDiv("kindle-pdf-stages");
 
-    for (const label of EXPORT_STAGES) {
+    for (const label of this.stages) {
       const row = stagesContainer.createDiv("kindle-pdf-stage");
       const icon = row.createSpan("kindle-pdf-stage-icon");
       icon.setText("\u00B7"); // middle dot = pending
@@ -56,6 +406,7 @@ class ExportProgressModal extends Modal {
     // Mark previous stage as complete
     if (this.currentStage >= 0 && this.currentStage < this.stageEls.length) {
       const prev = this.stageEls[this.currentStage];
+      prev.querySelector(".kindle-pdf-stage-detail")?.remove();
       prev.removeClass("is-active");
       prev.addClass("is-done");
       const icon = prev.querySelector(".kindle-pdf-stage-icon");
@@ -72,7 +423,17 @@ class ExportProgressModal extends Modal {
     }
   }
 
-  setDone() {
+  /** Show a progress note (e.g. "3 / 12") next to the active stage. */
+  setDetail(text: string) {
+    const curr = this.stageEls[this.currentStage];
+    if (!curr) return;
+
+    let detail = curr.querySelector(".kindle-pdf-stage-detail");
+    if (!detail) detail = curr.createSpan("kindle-pdf-stage-detail");
+    detail.setText(text);
+  }
+
+  setDone(message = `"${this.filename}" sent to Kindle!`) {
     // Mark last stage as complete
     if (this.currentStage >= 0 && this.currentStage < this.stageEls.length) {
       const last = this.stageEls[this.currentStage];
@@ -84,13 +445,25 @@ class ExportProgressModal extends Modal {
 
     const { contentEl } = this;
     const msg = contentEl.createDiv("kindle-pdf-success");
-    msg.setText(`"${this.filename}" sent to Kindle!`);
+    msg.setText(message);
 
-    // Auto-close after a short delay
-    setTimeout(() => this.close(), 1500);
+    // Auto-close after a short delay, unless there are warnings to read
+    if (!this.warningsEl) setTimeout(() => this.close(), 1500);
   }
 
-  setError(message: string) {
+  addWarning(message: string) {
+    if (!this.warningsEl) {
+      this.warningsEl = this.contentEl.createDiv("kindle-pdf-warnings");
+    }
+    this.warningsEl.createDiv({ text: message, cls: "kindle-pdf-warning" });
+  }
+
+  /**
+   * Show why the export failed, with a suggested fix when known and an
+   * optional note on what happened to the document.
+   */
+  setError(error: unknown, note?: string) {
+    const { message, hint } = explainError(error);
     this.errorMsg = message;
 
     // Mark current stage as failed
@@ -104,7 +477,9 @@ class ExportProgressModal extends Modal {
 
     const { contentEl } = this;
     const msg = contentEl.createDiv("kindle-pdf-error");
-    msg.setText(message);
+    msg.setText(`Export failed: ${message}`);
+    if (hint) msg.createDiv({ text: hint, cls: "kindle-pdf-error-hint" });
+    if (note) msg.createDiv({ text: note, cls: "kindle-pdf-error-hint" });
   }
 
   onClose() {
@@ -112,248 +487,955 @@ class ExportProgressModal extends Modal {
   }
 }
 
+/**
+ * Reports an export with notices only, for sends that run in the
+ * background. Warnings are shown with the final notice.
+ */
+class NoticeReporter implements ExportReporter {
+  private warnings: string[] = [];
+
+  constructor(private filename: string) {}
+
+  setStage() {}
+
+  setDetail() {}
+
+  addWarning(message: string) {
+    this.warnings.push(message);
+  }
+
+  setDone(message = `"${this.filename}" sent to Kindle!`) {
+    new Notice([message, ...this.warnings].join("\n"));
+  }
+
+  setError(error: unknown, note?: string) {
+    const { message, hint } = explainError(error);
+    const lines = [`Exporting "${this.filename}" failed: ${message}`];
+    if (hint) lines.push(hint);
+    if (note) lines.push(note);
+    new Notice(lines.join("\n"), 10000);
+  }
+}
+
 // ── Plugin ────────────────────────────────────────────────────────
 
 export default class KindlePdfPlugin extends Plugin {
   settings: KindlePdfSettings;
+  credentials: CredentialStore;
+  outbox: Outbox;
+  history: SendHistory;
+  autoSender: AutoSender;
+  /** Markdown and HTML processors and destinations of other plugins. */
+  hooks = new ExportHooks();
+  /** For other plugins and scripts; see api.ts. */
+  api = new KindlePdfApi(this);
   private exporting = false;
+  private profileCommandIds: string[] = [];
+  /** OAuth2 access tokens by profile id, reused until they expire. */
+  private accessTokens = new Map<string, AccessToken>();
 
   async onload() {
+    this.credentials = new CredentialStore(this.app);
     await this.loadSettings();
     this.addSettingTab(new KindlePdfSettingTab(this.app, this));
 
+    this.outbox = new Outbox(
+      this.app,
+      normalizePath(`${this.manifest.dir}/outbox`),
+      (item, content) => this.deliverQueued(item, content),
+      (item) => !this.needsPassphrase(item.profileId)
+    );
+    await this.outbox.load();
+
+    this.history = new SendHistory(
+      this.app,
+      normalizePath(`${this.manifest.dir}/history.json`)
+    );
+    await this.history.load();
+    this.registerEvent(
+      this.outbox.on("sent", (item) =>
+        this.recordQueuedSend(item as OutboxItem)
+      )
+    );
+
+    this.autoSender = new AutoSender(this);
+    this.autoSender.start();
+
+    this.app.workspace.onLayoutReady(async () => {
+      await this.migrateCredentials();
+      await this.outbox.retry();
+    });
+    this.registerInterval(window.setInterval(() => this.outbox.retry(), 60000));
+    this.registerDomEvent(window, "online", () =>
+      this.outbox.retry({ force: true })
+    );
+
+    this.registerView(
+      VIEW_TYPE_KINDLE_PREVIEW,
+      (leaf) => new KindlePreviewView(leaf, this)
+    );
+
+    this.registerView(
+      VIEW_TYPE_KINDLE_OUTBOX,
+      (leaf) => new OutboxView(leaf, this)
+    );
+
+    this.registerView(
+      VIEW_TYPE_KINDLE_HISTORY,
+      (leaf) => new HistoryView(leaf, this)
+    );
+
     this.addCommand({
       id: "send-to-kindle",
       name: "Send to Kindle",
       callback: () => this.export(),
     });
 
+    this.addCommand({
+      id: "open-kindle-preview",
+      name: "Open Kindle preview",
+      callback: () => this.openView(VIEW_TYPE_KINDLE_PREVIEW),
+    });
+
+    this.addCommand({
+      id: "open-kindle-outbox",
+      name: "Open outbox",
+      callback: () => this.openView(VIEW_TYPE_KINDLE_OUTBOX),
+    });
+
+    this.addCommand({
+      id: "open-kindle-history",
+      name: "Open send history",
+      callback: () => this.openView(VIEW_TYPE_KINDLE_HISTORY),
+    });
+
+    this.addCommand({
+      id: "resend-last",
+      name: "Resend last sent note",
+      callback: () => {
+        const last = this.history.list().find((entry) => entry.path);
+        if (last) this.resend(last);
+        else new Notice("No note has been sent yet.");
+      },
+    });
+
+    this.addCommand({
+      id: "export-to-vault",
+      name: "Export to vault folder",
+      callback: () => this.export("vault"),
+    });
+
+    this.addCommand({
+      id: "export-to-file",
+      name: "Export to file\u2026",
+      callback: () => this.export("file"),
+    });
+
+    this.addCommand({
+      id: "send-folder-to-kindle",
+      name: "Send folder to Kindle",
+      callback: () =>
+        new FolderSuggestModal(this.app, (folder) =>
+          this.exportFolder(folder)
+        ).open(),
+    });
+
+    this.addCommand({
+      id: "send-tag-to-kindle",
+      name: "Send tag to Kindle",
+      callback: () =>
+        new TagSuggestModal(this.app, (tag) => this.exportTag(tag)).open(),
+    });
+
+    this.addCommand({
+      id: "send-selection-to-kindle",
+      name: "Send selection to Kindle",
+      editorCheckCallback: (checking, editor, ctx) => {
+        const excerpt = ctx.file && this.selectionExcerpt(editor, ctx.file);
+        if (!excerpt || !ctx.file) return false;
+        if (!checking) this.exportExcerpt(ctx.file, excerpt);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "send-section-to-kindle",
+      name: "Send this section to Kindle",
+      editorCheckCallback: (checking, editor, ctx) => {
+        const excerpt = ctx.file && this.sectionExcerpt(editor, ctx.file);
+        if (!excerpt || !ctx.file) return false;
+        if (!checking) this.exportExcerpt(ctx.file, excerpt);
+        return true;
+      },
+    });
+
+    this.registerEvent(
+      this.app.workspace.on("editor-menu", (menu, editor, ctx) => {
+        const file = ctx.file;
+        if (!file) return;
+
+        const selection = this.selectionExcerpt(editor, file);
+        if (selection) {
+          menu.addItem((item) =>
+            item
+              .setTitle("Send selection to Kindle")
+              .setIcon("send")
+              .onClick(() => this.exportExcerpt(file, selection))
+          );
+        }
+        const section = this.sectionExcerpt(editor, file);
+        if (section) {
+          menu.addItem((item) =>
+            item
+              .setTitle("Send this section to Kindle")
+              .setIcon("send")
+              .onClick(() => this.exportExcerpt(file, section))
+          );
+        }
+      })
+    );
+
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu, file) => {
+        if (!(file instanceof TFolder)) return;
+        menu.addItem((item) =>
+          item
+            .setTitle("Send folder to Kindle")
+            .setIcon("send")
+            .onClick(() => this.exportFolder(file))
+        );
+      })
+    );
+
+    this.registerProfileCommands();
+
     if (this.settings.ribbonIcon) {
       this.addRibbonIcon("send", "Send to Kindle", () => this.export());
     }
   }
 
+  /**
+   * Add a "Send to Kindle (profile)" command for every delivery profile,
+   * so each can have its own hotkey. Call again after profiles change.
+   */
+  registerProfileCommands() {
+    for (const id of this.profileCommandIds) {
+      this.removeCommand(id);
+    }
+
+    this.profileCommandIds = this.settings.profiles.map((profile) => {
+      const id = `send-to-kindle-${profile.id}`;
+      this.addCommand({
+        id,
+        name: `Send to Kindle (${profile.name})`,
+        callback: () => this.export("kindle", profile),
+      });
+      return id;
+    });
+  }
+
+  /** Reveal one of the plugin's views, opening it in the sidebar. */
+  async openView(type: string) {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(type)[0];
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false) ?? workspace.getLeaf("split");
+      await leaf.setViewState({ type, active: true });
+    }
+    await workspace.revealLeaf(leaf);
+  }
+
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    const data = Object.assign({}, await this.loadData());
+    if (!Array.isArray(data.profiles) || data.profiles.length === 0) {
+      data.profiles = [takeLegacyProfile(data)];
+    }
+    data.profiles = data.profiles.map(upgradeProfile);
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
   }
 
   async saveSettings() {
     await this.saveData(this.settings);
   }
 
+  /**
+   * Move plaintext SMTP passwords from data.json into the credential
+   * store. A password stays where it is if storing it fails (e.g. no
+   * passphrase was entered), and is tried again on the next start.
+   */
+  private async migrateCredentials() {
+    let moved = 0;
+    for (const profile of this.settings.profiles) {
+      if (profile.smtpPass === undefined) continue;
+      try {
+        await this.credentials.set(
+          secretId(profile, "password"),
+          profile.smtpPass
+        );
+      } catch (error) {
+        console.error("Kindle PDF: could not store SMTP password", error);
+        continue;
+      }
+      delete profile.smtpPass;
+      moved++;
+    }
+    if (moved) await this.saveSettings();
+  }
+
   // ── Embed Resolution ──────────────────────────────────────────────
 
   /**
-   * Recursively resolve ![[embeds]] in markdown content.
-   * - Images → base64 data URIs
-   * - Markdown files → inline content (with anchor support)
-   * - External images → kept as-is
+   * Recursively resolve embeds in markdown content, wherever they are
+   * on a line. Code blocks are left alone.
+   * - ![[image.png|300]] and ![alt](path/image.png) → base64 data URIs,
+   *   with the width (and height) from `|300` or `|300x200`
+   * - WebP, AVIF and HEIC images → converted to PNG first
+   * - ![[paper.pdf#page=3]] → the PDF's pages as images
+   * - ![[note]], ![[note#heading]], ![[note#^block]] → inline content
+   * - Audio, video and other files → a placeholder with the file name
+   * - ![alt](https://…) → downloaded and inlined when `options.remote`
+   *   is set, else kept as-is; a failed download becomes a placeholder
+   * - Unresolved links → kept as-is
+   * Files that fail to embed are passed to `options.onWarning`.
    */
   async resolveEmbeds(
     content: string,
     sourceFile: TFile,
-    depth = 0
+    options: EmbedOptions = {}
   ): Promise<string> {
-    if (depth > 10) return content; // guard against infinite recursion
+    const visiting = options.visiting ?? new Set([sourceFile.path]);
+    const lines = content.split("\n");
+    let inFence = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      if (FENCE_RE.test(lines[i])) inFence = !inFence;
+      if (inFence || !lines[i].includes("![")) continue;
+
+      lines[i] = await replaceAsync(
+        lines[i],
+        EMBED_RE,
+        async (match, code, wikilink, alt, url) => {
+          if (code !== undefined) return match;
+          if (wikilink !== undefined) {
+            return this.resolveWikiEmbed(match, wikilink, sourceFile, {
+              ...options,
+              visiting,
+            });
+          }
+          return this.resolveImageLink(
+            match,
+            alt ?? "",
+            url ?? "",
+            sourceFile,
+            options
+          );
+        }
+      );
+    }
 
-    const resolvedLinks =
-      this.app.metadataCache.resolvedLinks[sourceFile.path] || {};
-    const linkPaths = Object.keys(resolvedLinks);
+    return lines.join("\n");
+  }
 
-    const lines = content.split("\n");
-    const result: string[] = [];
+  /** One `![[target#subpath|display]]` embed. */
+  private async resolveWikiEmbed(
+    match: string,
+    ref: string,
+    sourceFile: TFile,
+    options: EmbedOptions & { visiting: Set<string> }
+  ): Promise<string> {
+    const [link, display = ""] = ref.split("|", 2);
+    const { path: linkpath, subpath } = parseLinktext(link.trim());
+    // `![[#heading]]` embeds part of the same note
+    const file = linkpath
+      ? this.app.metadataCache.getFirstLinkpathDest(linkpath, sourceFile.path)
+      : sourceFile;
+    if (!file) return match; // keep unresolved embeds as-is
+
+    const drawing = isExcalidraw(this.app, file);
+    if (drawing || file.extension.toLowerCase() !== "md") {
+      const size = parseImageSize(display);
+      const alt = size ? file.basename : display;
+      return drawing
+        ? this.embedExcalidraw(file, alt, size, options.onWarning)
+        : this.embedFile(file, subpath, alt, size, options.onWarning);
+    }
 
-    for (const line of lines) {
-      // Match Obsidian-style embeds: ![[filename]] or ![[filename#anchor]]
-      const embedMatch = line.match(/!\[\[([^\]]+)\]\]/);
-      if (!embedMatch) {
-        result.push(line);
-        continue;
-      }
+    const key = subpath ? `${file.path}${subpath}` : file.path;
+    if (options.visiting.has(key)) return `[[${link}]]`;
 
-      const embedRef = embedMatch[1];
-      const [baseName, anchor] = embedRef.split("#", 2);
-
-      // Find the matching file path from resolved links
-      const matchedPath = linkPaths.find((p) => {
-        const fileName = p.split("/").pop() || "";
-        const nameWithoutExt = fileName.replace(/\.[^.]+$/, "");
-        return (
-          nameWithoutExt === baseName ||
-          fileName === baseName ||
-          p.endsWith(baseName)
-        );
-      });
+    const content = await this.readEmbeddedNote(file, subpath);
+    const resolved = await this.resolveEmbeds(content, file, {
+      ...options,
+      visiting: new Set(options.visiting).add(key),
+    });
+    return `\n\n${noteAnchor(file.basename)}\n\n${resolved}\n\n`;
+  }
 
-      if (!matchedPath) {
-        result.push(line); // keep unresolved embeds as-is
-        continue;
-      }
+  /**
+   * One `![alt](path)` image. Images in the vault are inlined, and web
+   * images too when there is a `remote` fetcher.
+   */
+  private async resolveImageLink(
+    match: string,
+    alt: string,
+    url: string,
+    sourceFile: TFile,
+    options: EmbedOptions
+  ): Promise<string> {
+    const { remote, onWarning } = options;
+    const target = url
+      .trim()
+      .replace(/\s+"[^"]*"$/, "")
+      .replace(/^<(.*)>$/, "$1");
+    // Obsidian also reads a size from ![alt|300](path)
+    const [text, display = ""] = alt.split("|", 2);
+    const size = parseImageSize(display);
+    if (/^https?:\/\//i.test(target) && remote?.allows(target)) {
+      return this.embedRemoteImage(target, text, size, remote, onWarning);
+    }
+    if (/^[a-z][a-z0-9+.-]*:/i.test(target)) return match; // http:, data:, …
 
-      const file = this.app.vault.getAbstractFileByPath(matchedPath);
-      if (!file || !(file instanceof TFile)) {
-        result.push(line);
-        continue;
+    let linkpath = target;
+    try {
+      linkpath = decodeURIComponent(target);
+    } catch {
+      // not percent-encoded
+    }
+    const file = this.app.metadataCache.getFirstLinkpathDest(
+      linkpath,
+      sourceFile.path
+    );
+    if (!file || file.extension.toLowerCase() === "md") return match;
+
+    return this.embedFile(file, "", text, size, onWarning);
+  }
+
+  /**
+   * Embed a file that isn't a note: images inline, PDF pages as images,
+   * and anything else as a placeholder with its name.
+   */
+  private async embedFile(
+    file: TFile,
+    subpath: string,
+    alt: string,
+    size: ImageSize | null,
+    onWarning: (message: string) => void = () => {}
+  ): Promise<string> {
+    const ext = file.extension.toLowerCase();
+    try {
+      if (IMAGE_EXTENSIONS.includes(ext)) {
+        return await this.embedImage(file, alt, size);
       }
+      if (ext === "pdf") {
+        return await this.embedPdf(file, subpath, size, onWarning);
+      }
+    } catch (error) {
+      const problem = error instanceof Error ? error.message : String(error);
+      onWarning(`Couldn't embed "${file.path}": ${problem}`);
+      return this.filePlaceholder(file, "can't be shown");
+    }
+    return this.filePlaceholder(file);
+  }
 
-      // Prevent self-embedding
-      if (file.path === sourceFile.path) {
-        continue;
+  private async embedImage(
+    file: TFile,
+    alt: string,
+    size: ImageSize | null
+  ): Promise<string> {
+    return this.imageMarkup(await this.imageDataUri(file), alt, size);
+  }
+
+  /**
+   * An Excalidraw drawing as an SVG image, drawn by the Excalidraw
+   * plugin. Without it the drawing becomes a placeholder.
+   */
+  private async embedExcalidraw(
+    file: TFile,
+    alt: string,
+    size: ImageSize | null,
+    onWarning: (message: string) => void = () => {}
+  ): Promise<string> {
+    try {
+      const svg = Buffer.from(await renderExcalidraw(file)).toString("base64");
+      return this.imageMarkup(`data:image/svg+xml;base64,${svg}`, alt, size);
+    } catch (error) {
+      const problem = error instanceof Error ? error.message : String(error);
+      onWarning(`Couldn't draw "${file.path}": ${problem}`);
+      return this.attachmentPlaceholder("Drawing", file.name, "can't be shown");
+    }
+  }
+
+  /**
+   * A web image downloaded and inlined, converted to PNG if Kindle can't
+   * show it. A failed download becomes a placeholder with the reason.
+   */
+  private async embedRemoteImage(
+    url: string,
+    alt: string,
+    size: ImageSize | null,
+    remote: RemoteImageFetcher,
+    onWarning: (message: string) => void = () => {}
+  ): Promise<string> {
+    try {
+      let { mime, data } = await remote.fetch(url);
+      const converted = Object.values(CONVERTED_IMAGE_TYPES).includes(mime);
+      if (converted) {
+        data = await convertToPng(new Uint8Array(data).buffer, mime);
+        mime = "image/png";
       }
+      const src = `data:${mime};base64,${data.toString("base64")}`;
+      return this.imageMarkup(src, alt, size);
+    } catch (error) {
+      const problem = error instanceof Error ? error.message : String(error);
+      onWarning(`Couldn't download the image ${url}: ${problem}`);
+      return this.attachmentPlaceholder(
+        "Image",
+        remoteImageLabel(url),
+        `not downloaded: ${problem}`
+      );
+    }
+  }
 
-      const ext = file.extension.toLowerCase();
+  private imageMarkup(
+    src: string,
+    alt: string,
+    size: ImageSize | null
+  ): string {
+    if (!size) return `![${alt}](${src})`;
+
+    const height = size.height ? ` height="${size.height}"` : "";
+    return `<img src="${src}" alt="${escapeHtml(alt)}" width="${
+      size.width
+    }"${height}>`;
+  }
 
-      if (IMAGE_EXTENSIONS.includes(ext)) {
-        // Image → base64 data URI
-        const binary = await this.app.vault.readBinary(file);
-        const base64 = Buffer.from(binary).toString("base64");
-        const mime =
-          ext === "svg" ? "image/svg+xml" : `image/${ext === "jpg" ? "jpeg" : ext}`;
-        result.push(`![${file.basename}](data:${mime};base64,${base64})`);
-      } else if (ext === "md") {
-        // Markdown → read, resolve anchor, recurse
-        let mdContent = await this.app.vault.cachedRead(file);
-
-        // Strip frontmatter
-        if (mdContent.startsWith("---")) {
-          const endIdx = mdContent.indexOf("---", 3);
-          if (endIdx !== -1) {
-            mdContent = mdContent.substring(endIdx + 3).trimStart();
-          }
-        }
+  /** Pages of a PDF as images, as wide as the device screen renders sharply. */
+  private async embedPdf(
+    file: TFile,
+    subpath: string,
+    size: ImageSize | null,
+    onWarning: (message: string) => void
+  ): Promise<string> {
+    const range = parsePageRange(subpath);
+    const { images, pageCount } = await renderPdfPages(
+      await this.app.vault.readBinary(file),
+      range,
+      deviceImageSize(this.resolvePage()).maxWidth
+    );
+    if (!images.length) {
+      onWarning(`"${file.path}" has no page ${range.first}.`);
+      return this.filePlaceholder(file, `no page ${range.first}`);
+    }
 
-        // Handle anchor references
-        if (anchor) {
-          if (anchor.startsWith("^")) {
-            // Block reference: find the line containing ^blockid
-            const blockIdx = mdContent.indexOf(anchor);
-            if (blockIdx !== -1) {
-              const blockStart = mdContent.lastIndexOf("\n", blockIdx);
-              mdContent = mdContent
-                .substring(blockStart >= 0 ? blockStart : 0, blockIdx)
-                .trim();
-            }
-          } else {
-            // Heading anchor: extract from heading to next heading of same or higher level
-            const headingPos = mdContent.indexOf(anchor);
-            if (headingPos !== -1) {
-              mdContent = mdContent.substring(headingPos);
-              mdContent = mdContent.replace(anchor, "").trimStart();
-              const nextHeading = mdContent.indexOf("\n#", 10);
-              if (nextHeading !== -1) {
-                mdContent = mdContent.substring(0, nextHeading);
-              }
-            }
-          }
-        }
+    const width = size ? ` width="${size.width}"` : "";
+    const pages = images.map((src, i) => {
+      const alt = escapeHtml(`${file.name}, page ${range.first + i}`);
+      return `<img class="kindle-pdf-page-image" src="${src}" alt="${alt}"${width}>`;
+    });
+    const shown = range.first + images.length - 1;
+    const wanted = Math.min(range.last, pageCount);
+    if (shown < wanted) {
+      onWarning(
+        `Only pages ${range.first}\u2013${shown} of "${file.path}" are included.`
+      );
+      pages.push(
+        this.filePlaceholder(
+          file,
+          `pages ${shown + 1}\u2013${wanted} not included`
+        )
+      );
+    }
+    return `\n\n${pages.join("\n")}\n\n`;
+  }
+
+  /**
+   * Resolve the embeds of a note, lay out a canvas, or draw an
+   * Excalidraw drawing.
+   */
+  private async resolveDocument(
+    content: string,
+    file: TFile,
+    pageProfile?: PageProfileId | "",
+    options: EmbedOptions = {}
+  ): Promise<string> {
+    if (file.extension === "canvas") {
+      return this.resolveCanvas(
+        content,
+        file,
+        pageProfile || undefined,
+        options
+      );
+    }
+    if (isExcalidraw(this.app, file)) {
+      return this.embedExcalidraw(file, file.basename, null, options.onWarning);
+    }
+    return this.resolveEmbeds(content, file, options);
+  }
+
+  /**
+   * A canvas as markdown and HTML: each card's markdown with its embeds
+   * resolved, laid out to the page profile's pages (see renderCanvas).
+   * EPUBs reflow, so they get the cards in reading order instead.
+   */
+  async resolveCanvas(
+    json: string,
+    file: TFile,
+    pageProfile?: PageProfileId,
+    options: EmbedOptions = {}
+  ): Promise<string> {
+    const canvas = parseCanvas(json);
+    const contents = new Map<string, string>();
+    for (const node of canvas.nodes) {
+      const markdown = cardMarkdown(node);
+      if (markdown === null) continue;
+      contents.set(node.id, await this.resolveEmbeds(markdown, file, options));
+    }
+    if (options.format === "epub") return linearCanvas(canvas, contents);
+
+    const profile = this.resolvePage(pageProfile);
+    const fontSize = this.settings.fontSize || profile.fontSize;
+    const px = (mm: number) => (mm * 96) / 25.4;
+    const page = {
+      width: px(profile.width - 2 * profile.margin),
+      // Leave room for the document title above the canvas
+      height: px(profile.height - 2 * profile.margin) - 4 * fontSize,
+    };
+    return renderCanvas(canvas, contents, page, this.settings.canvasLayout);
+  }
+
+  /**
+   * A downloader for the remote images of one export, so each is fetched
+   * once; none when downloading is off.
+   */
+  private remoteImages(): RemoteImageFetcher | undefined {
+    const settings = this.settings;
+    if (!settings.downloadRemoteImages) return undefined;
+    return new RemoteImageFetcher({
+      timeout: settings.remoteImageTimeout * 1000,
+      maxSize: settings.remoteImageMaxSize * 1024 * 1024,
+      allow: parseDomainList(settings.remoteImageAllow),
+      deny: parseDomainList(settings.remoteImageDeny),
+    });
+  }
+
+  /** A box with the file's name, in place of an embed that can't be shown. */
+  private filePlaceholder(file: TFile, problem = ""): string {
+    const kind = attachmentKind(file.extension.toLowerCase());
+    return this.attachmentPlaceholder(kind, file.name, problem);
+  }
+
+  private attachmentPlaceholder(
+    kind: string,
+    label: string,
+    problem = ""
+  ): string {
+    const name = escapeHtml(problem ? `${label} (${problem})` : label);
+    return `\n\n<div class="kindle-pdf-attachment"><span class="kindle-pdf-attachment-kind">${kind}</span> ${name}</div>\n\n`;
+  }
+
+  /**
+   * The part of a note an embed shows: the whole note, the content
+   * under a heading (up to the next heading of the same or a higher
+   * level), or one block. Positions come from the metadata cache; an
+   * anchor it doesn't know embeds the whole note.
+   */
+  private async readEmbeddedNote(
+    file: TFile,
+    subpath: string
+  ): Promise<string> {
+    const cache = this.app.metadataCache.getFileCache(file);
+    const target = subpath && cache ? resolveSubpath(cache, subpath) : null;
+    if (!target) return this.readNote(file);
+
+    const text = await this.app.vault.cachedRead(file);
+    const section =
+      target.type === "heading"
+        ? text.slice(target.current.position.end.offset, target.end?.offset)
+        : text
+            .slice(target.start.offset, target.end?.offset)
+            .replace(/\s*\^[A-Za-z0-9-]+\s*$/, "");
+    return scopeFootnotes(section.trim(), file.path);
+  }
+
+  // ── Markdown → HTML ───────────────────────────────────────────────
+
+  /**
+   * Convert resolved markdown to the final HTML document, rendering
+   * Mermaid diagrams first and applying the note's theme and the custom
+   * stylesheet. Problems that don't stop the export are passed to
+   * `onWarning`.
+   */
+  async renderHtml(
+    markdown: string,
+    title: string,
+    options: RenderOptions = {}
+  ): Promise<string> {
+    const {
+      sourceFile,
+      pageProfile,
+      metadata,
+      format,
+      onWarning = () => {},
+    } = options;
+    const withDiagrams = await renderMermaidBlocks(markdown, onWarning);
+    const settings = this.noteSettings(sourceFile, onWarning);
+
+    // A `kindle-theme` frontmatter key picks the theme for one note
+    let theme: ThemeId | undefined;
+    if (sourceFile) {
+      const frontmatter =
+        this.app.metadataCache.getFileCache(sourceFile)?.frontmatter;
+      const value = frontmatter?.["kindle-theme"];
+      if (value !== undefined) {
+        theme = findTheme(value) ?? undefined;
+        if (!theme) onWarning(`Unknown theme "${value}", using the default.`);
+      }
+    }
 
-        // Recurse to resolve nested embeds
-        mdContent = await this.resolveEmbeds(mdContent, file, depth + 1);
-        result.push(mdContent);
+    let customCss = "";
+    const cssPath = this.settings.customCssPath;
+    if (cssPath) {
+      const adapter = this.app.vault.adapter;
+      if (await adapter.exists(normalizePath(cssPath))) {
+        customCss = await adapter.read(normalizePath(cssPath));
       } else {
-        result.push(line); // unsupported file type, keep as-is
+        onWarning(`Custom stylesheet "${cssPath}" not found.`);
       }
     }
 
-    return result.join("\n");
+    let coverImage = "";
+    if (settings.coverPage && metadata?.cover) {
+      coverImage = await this.readCoverImage(metadata.cover, sourceFile);
+      if (!coverImage) onWarning(`Cover image "${metadata.cover}" not found.`);
+    }
+
+    return this.markdownToHtml(withDiagrams, title, {
+      theme,
+      customCss,
+      pageProfile,
+      settings,
+      metadata,
+      coverImage,
+      format,
+    });
   }
 
-  // ── Markdown → HTML ───────────────────────────────────────────────
+  /** A cover image from the vault as a data URI, or "" if not found. */
+  private async readCoverImage(
+    link: string,
+    sourceFile?: TFile
+  ): Promise<string> {
+    const file = this.app.metadataCache.getFirstLinkpathDest(
+      link,
+      sourceFile?.path ?? ""
+    );
+    if (!file || !IMAGE_EXTENSIONS.includes(file.extension.toLowerCase())) {
+      return "";
+    }
+    return this.imageDataUri(file);
+  }
 
-  markdownToHtml(markdown: string, title: string): string {
-    // Strip %%comments%%
-    let processed = markdown.replace(/%%[\s\S]*?%%/g, "");
+  /** An image as a data URI, converted to PNG if Kindle can't show it. */
+  private async imageDataUri(file: TFile): Promise<string> {
+    const ext = file.extension.toLowerCase();
+    const binary = await this.app.vault.readBinary(file);
+    let data: Buffer = Buffer.from(binary);
+    let mime = imageMime(ext);
+    if (ext in CONVERTED_IMAGE_TYPES) {
+      data = await convertToPng(binary, CONVERTED_IMAGE_TYPES[ext]);
+      mime = "image/png";
+    }
+    return `data:${mime};base64,${data.toString("base64")}`;
+  }
 
-    // Strip dataview/dataviewjs blocks
-    processed = processed.replace(/```dataview(?:js)?[\s\S]*?```/g, "");
+  /** The settings with a note's `kindle-*` frontmatter overrides. */
+  private noteSettings(
+    file?: TFile,
+    onWarning?: (message: string) => void
+  ): KindlePdfSettings {
+    if (!file) return this.settings;
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    return applyNoteOverrides(this.settings, frontmatter, onWarning);
+  }
 
-    // Convert ==highlights== to <mark>
-    processed = processed.replace(/==([\s\S]*?)==/g, "<mark>$1</mark>");
+  /** The cover page: image, title, subtitle, author and date. */
+  private renderCover(
+    title: string,
+    metadata: DocumentMetadata,
+    image: string
+  ): string {
+    const line = (cls: string, text: string) =>
+      text
+        ? `<p class="kindle-pdf-cover-${cls}">${escapeHtml(text)}</p>\n`
+        : "";
+    const img = image ? `<img src="${image}" alt="">\n` : "";
+    const lines =
+      line("title", title) +
+      line("subtitle", metadata.subtitle) +
+      line("author", metadata.author) +
+      line("date", metadata.date);
+    return `<section class="kindle-pdf-cover">
+${img}${lines}</section>
+${PAGE_BREAK}`;
+  }
+
+  markdownToHtml(
+    markdown: string,
+    title: string,
+    options: {
+      theme?: ThemeId;
+      customCss?: string;
+      pageProfile?: PageProfileId;
+      /** Settings with per-note overrides, the plugin's by default. */
+      settings?: KindlePdfSettings;
+      metadata?: DocumentMetadata;
+      /** Data URI of the cover image. */
+      coverImage?: string;
+      format?: OutputFormat;
+    } = {}
+  ): string {
+    const settings = options.settings ?? this.settings;
+    const format = options.format ?? settings.outputFormat;
+    const metadata =
+      options.metadata ??
+      readMetadata(undefined, { title, author: settings.author });
+
+    // Strip dataview/dataviewjs blocks
+    let processed = markdown.replace(/```dataview(?:js)?[\s\S]*?```/g, "");
 
     // Handle page breaks on ---
-    if (this.settings.pageBreakOnHr) {
-      processed = processed.replace(
-        /^---$/gm,
-        '<div class="kindle-pdf-page-break"></div>'
-      );
+    if (settings.pageBreakOnHr) {
+      processed = processed.replace(/^---$/gm, PAGE_BREAK);
+    }
+
+    // Give every heading a stable anchor id and remember it for the TOC
+    const ids = new HeadingIds();
+    const titleId = ids.next(title);
+
+    // Callouts, wikilinks, footnotes, task lists, highlights and comments
+    const syntax = new ObsidianSyntax(ids);
+    processed = syntax.prepare(processed);
+    const headings: TocEntry[] = [];
+    const md = new Marked({
+      renderer: {
+        heading({ tokens, depth }) {
+          const inner = this.parser.parseInline(tokens);
+          const text = htmlToText(inner);
+          const id = ids.heading(text);
+          headings.push({ id, text, level: depth, children: [] });
+          return `<h${depth} id="${id}">${inner}</h${depth}>\n`;
+        },
+      },
+    });
+
+    const profile = this.resolvePage(options.pageProfile, settings);
+    const fontSize = settings.fontSize || profile.fontSize;
+
+    // Code in <pre> is 0.81em (0.9em twice) in a monospace font about
+    // 0.6em wide, inside 26px of padding and border; line numbers take
+    // four columns
+    const contentWidth = ((profile.width - 2 * profile.margin) * 96) / 25.4;
+    const codeColumns =
+      Math.floor((contentWidth - 26) / (fontSize * 0.81 * 0.6)) -
+      (settings.codeLineNumbers ? 4 : 0);
+
+    md.use(
+      syntax.extension(),
+      mathExtension(),
+      codeExtension({
+        theme: settings.codeTheme,
+        lineNumbers: settings.codeLineNumbers,
+        // EPUB readers reflow the text, so only PDF pages need wrapping
+        wrapColumns: settings.codeWrap && format === "pdf" ? codeColumns : 0,
+      })
+    );
+
+    const parse = (src: string) => md.parse(src, { async: false }) as string;
+    const htmlBody = syntax.linkHeadings(
+      parse(processed) + syntax.renderEndnotes(parse)
+    );
+
+    let toc = "";
+    if (settings.tableOfContents) {
+      const depth = settings.tocDepth;
+      const entries = headings.filter((h) => h.level <= depth);
+      if (entries.length) {
+        toc = `<nav class="kindle-pdf-toc">
+<p class="kindle-pdf-toc-title">Contents</p>
+${renderTocList(buildTocTree(entries))}
+</nav>
+${PAGE_BREAK}`;
+      }
     }
 
-    const htmlBody = marked.parse(processed, { async: false }) as string;
-    const fontSize = this.settings.fontSize;
+    const meta = (name: string, content: string) =>
+      content ? `<meta name="${name}" content="${escapeHtml(content)}">\n` : "";
+    const head =
+      meta("author", metadata.author) +
+      meta("description", metadata.description);
+    const cover = settings.coverPage
+      ? `${this.renderCover(title, metadata, options.coverImage ?? "")}\n`
+      : "";
+    const subtitle = metadata.subtitle
+      ? `<p class="kindle-pdf-subtitle">${escapeHtml(metadata.subtitle)}</p>\n`
+      : "";
 
     // Full standalone HTML document for the hidden BrowserWindow
     return `<!DOCTYPE html>
 <html>
 <head>
 <meta charset="utf-8">
-<style>
-  body {
-    margin: 0;
-    padding: 40px;
-    background: white;
-    color: black;
-    font-family: Georgia, "Times New Roman", serif;
-    font-size: ${fontSize}px;
-    line-height: 1.6;
-  }
-  h1 { font-size: 1.8em; margin-top: 0.8em; margin-bottom: 0.4em; }
-  h2 { font-size: 1.5em; margin-top: 0.7em; margin-bottom: 0.3em; }
-  h3 { font-size: 1.3em; margin-top: 0.6em; margin-bottom: 0.3em; }
-  h4, h5, h6 { font-size: 1.1em; margin-top: 0.5em; margin-bottom: 0.2em; }
-  p { margin-top: 0.4em; margin-bottom: 0.4em; }
-  img { max-width: 100%; height: auto; }
-  pre {
-    background: #f4f4f4;
-    border: 1px solid #ddd;
-    border-radius: 4px;
-    padding: 12px;
-    overflow-x: auto;
-    font-family: "Courier New", Courier, monospace;
-    font-size: 0.9em;
-    line-height: 1.4;
-  }
-  code {
-    font-family: "Courier New", Courier, monospace;
-    font-size: 0.9em;
-    background: #f4f4f4;
-    padding: 2px 4px;
-    border-radius: 3px;
-  }
-  pre code { background: none; padding: 0; }
-  blockquote {
-    border-left: 3px solid #999;
-    margin-left: 0;
-    padding-left: 16px;
-    color: #555;
-    font-style: italic;
-  }
-  ul, ol { padding-left: 24px; margin-top: 0.4em; margin-bottom: 0.4em; }
-  li { margin-bottom: 0.2em; }
-  mark { background: #fff3a8; padding: 1px 2px; }
-  hr { border: none; border-top: 1px solid #ccc; margin: 1em 0; }
-  table { border-collapse: collapse; width: 100%; margin: 0.5em 0; }
-  th, td { border: 1px solid #ccc; padding: 6px 10px; text-align: left; }
-  th { background: #f4f4f4; font-weight: bold; }
-  .kindle-pdf-page-break { page-break-after: always; break-after: page; }
+<title>${escapeHtml(title)}</title>
+${head}<style>
+${buildStylesheet({
+  theme: options.theme || settings.theme,
+  page: profile,
+  fontSize,
+  fontFamily: settings.fontFamily,
+  lineHeight: settings.lineHeight,
+  codeTheme: settings.codeTheme,
+  codeWrap: settings.codeWrap,
+  customCss: options.customCss || "",
+  customCssMode: settings.customCssMode,
+})}
 </style>
 </head>
 <body>
-<h1>${this.escapeHtml(title)}</h1>
+${cover}<h1 id="${titleId}">${escapeHtml(title)}</h1>
+${subtitle}${toc}
 ${htmlBody}
 </body>
 </html>`;
   }
 
-  private escapeHtml(text: string): string {
-    return text
-      .replace(/&/g, "&amp;")
-      .replace(/</g, "&lt;")
-      .replace(/>/g, "&gt;");
+  /** Page geometry for a page profile, the one in the settings by default. */
+  private resolvePage(
+    pageProfile?: PageProfileId,
+    settings = this.settings
+  ): PageProfile {
+    return resolvePageProfile({
+      ...settings,
+      pageProfile: pageProfile || settings.pageProfile,
+    });
   }
 
   // ── HTML → PDF ────────────────────────────────────────────────────
 
-  async generatePdf(html: string): Promise<Buffer> {
+  /**
+   * Print an HTML document to PDF. `info` sets the document's Title,
+   * Author and Subject; `outlineDepth` adds bookmarks for the headings
+   * down to that level, none when 0.
+   */
+  async generatePdf(
+    html: string,
+    pageProfile?: PageProfileId,
+    info: PdfInfo = {},
+    outlineDepth = this.settings.tableOfContents ? this.settings.tocDepth : 0
+  ): Promise<Buffer> {
+    const profile = this.resolvePage(pageProfile);
+    const margin = mmToInches(profile.margin);
+    if (outlineDepth) html = limitOutline(html, outlineDepth);
+
     // Write HTML to a temp file — more reliable than data URLs for large docs
     const tmpFile = path.join(os.tmpdir(), `kindle-pdf-${Date.now()}.html`);
     fs.writeFileSync(tmpFile, html, "utf-8");
@@ -382,15 +1464,31 @@ ${htmlBody}
           try {
             // Small delay to let images/fonts fully render
             await new Promise((r) => setTimeout(r, 300));
+            if (html.includes("kindle-canvas-card")) {
+              await webview.executeJavaScript(
+                `(${fitCanvasCards.toString()})(document)`
+              );
+            }
 
             const pdfData = await webview.printToPDF({
-              pageSize: "Letter",
+              pageSize: {
+                width: mmToInches(profile.width),
+                height: mmToInches(profile.height),
+              },
+              margins: {
+                top: margin,
+                bottom: margin,
+                left: margin,
+                right: margin,
+              },
+              preferCSSPageSize: true,
               printBackground: true,
-              margins: { top: 0, bottom: 0, left: 0, right: 0 },
+              // Builds the bookmark tree from the heading hierarchy
+              generateDocumentOutline: outlineDepth > 0,
             });
 
             cleanup();
-            resolve(Buffer.from(pdfData));
+            resolve(setPdfInfo(Buffer.from(pdfData), info));
           } catch (err) {
             cleanup();
             reject(err);
@@ -410,118 +1508,1121 @@ ${htmlBody}
     }
   }
 
-  // ── Send Email ────────────────────────────────────────────────────
+  // ── HTML → EPUB ───────────────────────────────────────────────────
 
-  async sendEmail(pdfBuffer: Buffer, filename: string): Promise<void> {
-    const port = parseInt(this.settings.smtpPort);
-    const secure = port === 465;
-
-    const transporter = nodemailer.createTransport({
-      host: this.settings.smtpHost,
-      port: port,
-      secure: secure,
-      auth: {
-        user: this.settings.smtpUser,
-        pass: this.settings.smtpPass,
-      },
+  generateEpub(html: string, metadata: DocumentMetadata): Buffer {
+    return buildEpub(html, {
+      title: metadata.title,
+      author: metadata.author,
+      language: this.settings.language,
+      description: metadata.description,
+      date: metadata.date,
     });
+  }
+
+  /**
+   * Generate the PDF or EPUB of an HTML document (stage 2), with the
+   * document metadata and, for PDF, the outline if the note wants one.
+   */
+  async generateDocument(
+    html: string,
+    format: OutputFormat,
+    options: {
+      title: string;
+      metadata: DocumentMetadata;
+      pageProfile?: PageProfileId;
+      sourceFile?: TFile;
+    }
+  ): Promise<Buffer> {
+    const { title, metadata, pageProfile, sourceFile } = options;
+    if (format === "epub") {
+      return this.generateEpub(html, { ...metadata, title });
+    }
+    const settings = this.noteSettings(sourceFile);
+    return this.generatePdf(
+      html,
+      pageProfile,
+      {
+        title,
+        author: metadata.author,
+        subject: metadata.description || metadata.subtitle,
+      },
+      settings.tableOfContents ? settings.tocDepth : 0
+    );
+  }
+
+  /** Downscale and recompress a document's images, if that is turned on. */
+  private async compressImages(
+    html: string,
+    pageProfile?: PageProfileId,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<string> {
+    if (!this.settings.compressImages) return html;
+    return optimizeImages(
+      html,
+      {
+        ...deviceImageSize(this.resolvePage(pageProfile)),
+        grayscale: this.settings.grayscaleImages,
+      },
+      onProgress
+    );
+  }
+
+  // ── Send Email ────────────────────────────────────────────────────
+
+  async sendEmail(
+    content: Buffer,
+    filename: string,
+    profile: DeliveryProfile,
+    subject = filename.replace(/\.(pdf|epub)$/, "")
+  ): Promise<void> {
+    const ext = path.extname(filename).substring(1) as OutputFormat;
+    const transporter = await this.createTransport(profile);
 
     await transporter.sendMail({
-      from: this.settings.senderEmail,
-      to: this.settings.kindleEmail,
-      subject: filename.replace(/\.pdf$/, ""),
+      from: profile.senderEmail,
+      to: profile.recipients,
+      subject,
       text: "Sent from Obsidian Kindle PDF plugin",
       attachments: [
         {
           filename: filename,
-          content: pdfBuffer,
-          contentType: "application/pdf",
+          content: content,
+          contentType: MIME_TYPES[ext] || "application/octet-stream",
         },
       ],
     });
   }
 
+  /**
+   * An SMTP transport for a profile. With OAuth2, nodemailer fetches a
+   * new access token from the refresh token whenever the last one has
+   * expired.
+   */
+  private async createTransport(profile: DeliveryProfile) {
+    const secret = async (name: ProfileSecret) =>
+      this.credentials.get(secretId(profile, name));
+
+    const options = transportOptions(
+      profile,
+      {
+        password: profile.smtpPass || (await secret("password")),
+        clientSecret:
+          profile.smtpAuth === "oauth2" ? await secret("client-secret") : "",
+        refreshToken:
+          profile.smtpAuth === "oauth2" ? await secret("refresh-token") : "",
+      },
+      this.accessTokens.get(profile.id)
+    );
+
+    const transporter = nodemailer.createTransport(options);
+    transporter.on("token", ({ accessToken, expires }) =>
+      this.accessTokens.set(profile.id, { accessToken, expires })
+    );
+    return transporter;
+  }
+
+  /**
+   * Email documents with a profile, one message each, and record each
+   * in the history. Documents that can't be sent are saved to the
+   * outbox; resolves to their errors and outbox items. A `silent` send
+   * doesn't ask for the passphrase: it goes to the outbox, which sends
+   * it once the passphrase has been entered.
+   */
+  private async deliverDocuments(
+    documents: ExportedDocument[],
+    profile: DeliveryProfile,
+    source: OutboxSource,
+    onProgress: (index: number, total: number) => void = () => {},
+    silent = false
+  ): Promise<Delivery> {
+    const failures: unknown[] = [];
+    const queued: string[] = [];
+    let size = 0;
+    for (let i = 0; i < documents.length; i++) {
+      const { title, filename, data } = documents[i];
+      const part = { ...source, title };
+      if (documents.length > 1) onProgress(i, documents.length);
+      size += data.byteLength;
+      try {
+        if (!navigator.onLine) throw new Error("This device is offline.");
+        if (silent && this.needsPassphrase(profile.id)) {
+          throw new Error(
+            "Waiting for the passphrase that protects the SMTP credentials."
+          );
+        }
+        await this.sendEmail(data, filename, profile, title);
+      } catch (error) {
+        // Keep the document so the send can be retried later
+        console.error("Kindle PDF send error:", error);
+        const item = await this.outbox.add(
+          data,
+          filename,
+          profile,
+          error,
+          part
+        );
+        failures.push(error);
+        queued.push(item.id);
+      }
+    }
+    await this.recordSend(source, profile, size, documents.length, queued);
+    if (!failures.length) await this.stampSent(source);
+    return { failures, queued };
+  }
+
+  /**
+   * Whether sending with a profile would ask for the passphrase, so
+   * background sends wait until it has been entered.
+   */
+  private needsPassphrase(profileId: string): boolean {
+    const profile = this.settings.profiles.find((p) => p.id === profileId);
+    if (!profile) return false;
+    const secrets: ProfileSecret[] =
+      profile.smtpAuth === "oauth2"
+        ? ["client-secret", "refresh-token"]
+        : ["password"];
+    return secrets.some((name) =>
+      this.credentials.isLocked(secretId(profile, name))
+    );
+  }
+
+  /** Send a document from the outbox with its profile's current settings. */
+  private async deliverQueued(item: OutboxItem, content: Buffer) {
+    const profile = this.settings.profiles.find((p) => p.id === item.profileId);
+    if (!profile) {
+      throw new Error("The delivery profile of this document was deleted.");
+    }
+    await this.sendEmail(content, item.filename, profile);
+    new Notice(`"${item.filename}" sent to ${profile.name} from the outbox.`);
+  }
+
+  /**
+   * Record an outbox item that went out. Its document counts as sent
+   * once none of its parts wait any more. Items queued before the
+   * history followed them get an entry of their own.
+   */
+  private async recordQueuedSend(item: OutboxItem) {
+    const source = { path: "", title: item.filename, hash: "", ...item.source };
+    const entry = await this.history.delivered(item.id);
+    if (!entry) {
+      const profile = this.settings.profiles.find(
+        (p) => p.id === item.profileId
+      );
+      if (!profile) return;
+      await this.recordSend(source, profile, item.size, 1, []);
+    }
+    if (!entry || entry.result === "sent") await this.stampSent(source);
+  }
+
+  /**
+   * Add a send to the history, as queued while any of its parts wait
+   * in the outbox (`pending`).
+   */
+  private async recordSend(
+    source: OutboxSource,
+    profile: DeliveryProfile,
+    size: number,
+    parts: number,
+    pending: string[]
+  ) {
+    await this.history.add({
+      ...source,
+      timestamp: Date.now(),
+      profileId: profile.id,
+      profileName: profile.name,
+      size,
+      parts,
+      ...(pending.length ? { pending } : {}),
+      result: pending.length ? "queued" : "sent",
+    });
+  }
+
+  /**
+   * When enabled, stamp a note's frontmatter with the date it was sent.
+   * Excerpts don't count as sending the note.
+   */
+  private async stampSent(source: OutboxSource) {
+    if (!this.settings.stampSent || source.excerpt) return;
+    const file = this.app.vault.getAbstractFileByPath(source.path);
+    if (!(file instanceof TFile)) return;
+    await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      frontmatter["kindle-sent"] = moment().format("YYYY-MM-DD");
+    });
+  }
+
+  /** Connect and sign in to a profile's SMTP server without sending. */
+  async testConnection(profile: DeliveryProfile): Promise<void> {
+    const transporter = await this.createTransport(profile);
+    try {
+      await transporter.verify();
+    } finally {
+      transporter.close();
+    }
+  }
+
+  /** Send a one-page PDF with a profile, to check delivery end to end. */
+  async sendTestDocument(profile: DeliveryProfile): Promise<void> {
+    const title = "Kindle PDF test";
+    const html = this.markdownToHtml(
+      `This document was sent by the Kindle PDF plugin to test the "${profile.name}" delivery profile.`,
+      title,
+      { pageProfile: profile.pageProfile || undefined, format: "pdf" }
+    );
+    const pdf = await this.generatePdf(html, profile.pageProfile || undefined);
+    await this.sendEmail(pdf, `${title}.pdf`, profile);
+  }
+
+  // ── Save Locally ──────────────────────────────────────────────────
+
+  /** Write the document into the export folder of the vault. */
+  async saveToVault(content: Buffer, filename: string): Promise<string> {
+    const folder = normalizePath(this.settings.exportFolder || "/");
+    const dir = folder === "/" ? "" : folder;
+    const vault = this.app.vault;
+
+    if (dir && !vault.getAbstractFileByPath(dir)) {
+      await vault.createFolder(dir);
+    }
+
+    const target = await pickFilename(
+      dir,
+      filename,
+      this.settings.overwritePolicy,
+      (p) => vault.getAbstractFileByPath(p) !== null
+    );
+    const data = content.buffer.slice(
+      content.byteOffset,
+      content.byteOffset + content.byteLength
+    ) as ArrayBuffer;
+
+    const existing = vault.getAbstractFileByPath(target);
+    if (existing instanceof TFile) {
+      await vault.modifyBinary(existing, data);
+    } else {
+      await vault.createBinary(target, data);
+    }
+    return target;
+  }
+
+  /** Write the document into the export directory on disk. */
+  async saveToDisk(content: Buffer, filename: string): Promise<string> {
+    const dir = this.settings.exportPath.replace(/^~(?=$|[\\/])/, os.homedir());
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    const target = await pickFilename(
+      dir,
+      filename,
+      this.settings.overwritePolicy,
+      (p) => fs.existsSync(p)
+    );
+    await fs.promises.writeFile(target, content);
+    return path.normalize(target);
+  }
+
   // ── Export Orchestration ───────────────────────────────────────────
 
-  async export(): Promise<void> {
-    if (this.exporting) {
-      new Notice("Export already in progress.");
+  async export(
+    destination: string = "kindle",
+    profile?: DeliveryProfile
+  ): Promise<void> {
+    // Get active file
+    const file = this.app.workspace.getActiveFile();
+    if (!file || !isExportable(file)) {
+      new Notice("No active note. Please open a markdown note or a canvas.");
       return;
     }
 
-    // Validate settings
-    const s = this.settings;
+    await this.exportNote(file, destination, profile);
+  }
+
+  /**
+   * Export one note. Sending to Kindle without a profile first asks
+   * which profile to use. Resolves to the export's result, or null when
+   * it didn't start: while a profile is picked, when settings are
+   * missing, or when the user cancelled.
+   */
+  async exportNote(
+    file: TFile,
+    destination: string = "kindle",
+    profile?: DeliveryProfile,
+    options: SendOptions = {}
+  ): Promise<ExportResult | null> {
+    const { warnUnchanged = true, silent = false } = options;
+    if (destination === "kindle" && !profile) {
+      this.chooseProfile(file, (chosen) =>
+        this.exportNote(file, destination, chosen, options)
+      );
+      return null;
+    }
+    if (!this.checkSettings(destination, profile)) return null;
+
+    const content = await this.readDocument(file);
+    const hash = await hashContent(content);
+    if (destination === "kindle" && profile && warnUnchanged) {
+      const previous = this.history.lastSent(file.path, profile.id);
+      if (previous?.hash === hash && !(await confirmResend(this.app, previous)))
+        return null;
+    }
+
+    const metadata = this.noteMetadata(file);
+    return this.runExport({
+      title: metadata.title,
+      sourceFile: file,
+      metadata,
+      loadContent: async (_reporter, embeds) =>
+        this.resolveDocument(content, file, profile?.pageProfile, embeds),
+      destination,
+      profile,
+      hash,
+      silent,
+    });
+  }
+
+  /**
+   * Send a note from the history again, with the same profile. An
+   * excerpt is sent as it was then.
+   */
+  async resend(entry: HistoryEntry): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(entry.path);
+    const profile = this.settings.profiles.find(
+      (p) => p.id === entry.profileId
+    );
+    if (!(file instanceof TFile)) {
+      new Notice(`"${entry.title}" is no longer in the vault.`);
+    } else if (!profile) {
+      new Notice(`The "${entry.profileName}" delivery profile was deleted.`);
+    } else if (entry.excerpt) {
+      await this.exportExcerpt(file, entry.excerpt, profile);
+    } else {
+      await this.exportNote(file, "kindle", profile, { warnUnchanged: false });
+    }
+  }
+
+  /**
+   * Export part of a note on its own. Embeds in it are resolved against
+   * the note it comes from.
+   */
+  async exportExcerpt(
+    file: TFile,
+    excerpt: Excerpt,
+    profile?: DeliveryProfile
+  ): Promise<ExportResult | null> {
+    if (!profile) {
+      this.chooseProfile(file, (chosen) =>
+        this.exportExcerpt(file, excerpt, chosen)
+      );
+      return null;
+    }
+    if (!this.checkSettings("kindle", profile)) return null;
+
+    const content = scopeFootnotes(excerpt.markdown, file.path);
+    return this.runExport({
+      title: excerpt.title,
+      sourceFile: file,
+      loadContent: async (_reporter, embeds) =>
+        this.resolveEmbeds(content, file, embeds),
+      profile,
+      hash: await hashContent(content),
+      excerpt,
+    });
+  }
+
+  /** The text selected in an editor, or null when nothing is selected. */
+  private selectionExcerpt(editor: Editor, file: TFile): Excerpt | null {
+    const markdown = editor.getSelection();
+    if (!markdown.trim()) return null;
+    return { title: `${file.basename} (selection)`, markdown };
+  }
+
+  /**
+   * The heading section the cursor is in, with its subheadings. The
+   * heading becomes the document's title.
+   */
+  private sectionExcerpt(editor: Editor, file: TFile): Excerpt | null {
+    const cache = this.app.metadataCache.getFileCache(file);
+    if (!cache) return null;
+    const section = sectionAt(
+      cache,
+      editor.getValue(),
+      editor.getCursor().line
+    );
+    if (!section) return null;
+    return { title: section.heading, markdown: section.body };
+  }
+
+  async exportFolder(folder: TFolder): Promise<void> {
+    const title = folder.isRoot() ? this.app.vault.getName() : folder.name;
+    await this.exportNotes(title, collectFolderNotes(folder));
+  }
+
+  async exportTag(tag: string): Promise<void> {
+    await this.exportNotes(
+      tag.replace(/^#/, ""),
+      collectTaggedNotes(this.app, tag)
+    );
+  }
+
+  /**
+   * Combine several notes into one book. Each note becomes a chapter
+   * headed by its name and starting on a new page.
+   */
+  async exportNotes(
+    title: string,
+    files: TFile[],
+    profile?: DeliveryProfile,
+    options: SendOptions = {}
+  ): Promise<ExportResult | null> {
+    if (!profile) {
+      this.chooseProfile(null, (chosen) =>
+        this.exportNotes(title, files, chosen, options)
+      );
+      return null;
+    }
+    if (!this.checkSettings("kindle", profile)) return null;
+
+    if (files.length === 0) {
+      new Notice(`No markdown notes found for "${title}".`);
+      return null;
+    }
+
+    const manualList = this.settings.batchManualOrder
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean);
+    const ordered = sortNotes(
+      this.app,
+      files,
+      this.settings.batchOrder,
+      manualList
+    );
+
+    return this.runExport({
+      title,
+      loadContent: async (reporter, embeds) => {
+        const chapters: string[] = [];
+
+        for (let i = 0; i < ordered.length; i++) {
+          const file = ordered[i];
+          reporter.setDetail(
+            `${i + 1} / ${ordered.length} \u2014 ${file.basename}`
+          );
+          await sleep();
+
+          const content = await this.readNote(file);
+          const resolved = await this.resolveDocument(
+            content,
+            file,
+            undefined,
+            embeds
+          );
+          chapters.push(
+            `${PAGE_BREAK}\n\n${noteAnchor(file.basename)}\n\n` +
+              `# ${file.basename}\n\n${resolved}`
+          );
+        }
+
+        return chapters.join("\n\n");
+      },
+      profile,
+      silent: options.silent,
+    });
+  }
+
+  /**
+   * Pick the delivery profile for a send. A note's `kindle` frontmatter
+   * key names its profile, which is used without asking; with a single
+   * profile there is nothing to ask either.
+   */
+  private chooseProfile(
+    file: TFile | null,
+    onChoose: (profile: DeliveryProfile) => void
+  ) {
+    const { profiles } = this.settings;
+    if (profiles.length === 1) {
+      onChoose(profiles[0]);
+      return;
+    }
+
+    if (file) {
+      const value =
+        this.app.metadataCache.getFileCache(file)?.frontmatter?.kindle;
+      if (value !== undefined) {
+        const profile = findProfile(profiles, value);
+        if (profile) {
+          onChoose(profile);
+          return;
+        }
+        new Notice(`Unknown delivery profile "${value}".`);
+      }
+    }
+
+    new ProfileSuggestModal(this.app, profiles, onChoose).open();
+  }
+
+  private checkSettings(
+    destination: string,
+    profile?: DeliveryProfile
+  ): boolean {
+    if (destination === "file" && !this.settings.exportPath) {
+      new Notice("Please set an export directory before exporting to a file.");
+      return false;
+    }
+    if (destination !== "kindle") return true;
+    if (!profile) return false;
+
     if (
-      !s.senderEmail ||
-      !s.kindleEmail ||
-      !s.smtpHost ||
-      !s.smtpPort ||
-      !s.smtpUser ||
-      !s.smtpPass
+      !profile.senderEmail ||
+      !profile.recipients.length ||
+      !this.smtpConfigured(profile)
     ) {
       new Notice(
-        "Please configure all email and SMTP settings before exporting."
+        `Please configure all email and SMTP settings of the "${profile.name}" profile before sending.`
       );
-      return;
+      return false;
     }
+    return true;
+  }
 
-    // Get active file
-    const file = this.app.workspace.getActiveFile();
-    if (!file || file.extension !== "md") {
-      new Notice("No active .md file. Please open a markdown file first.");
-      return;
+  /** Whether a profile has everything needed to sign in to SMTP. */
+  smtpConfigured(profile: DeliveryProfile): boolean {
+    const has = (name: ProfileSecret) =>
+      this.credentials.has(secretId(profile, name));
+    const authenticated =
+      profile.smtpAuth === "oauth2"
+        ? supportsOAuth2(profile) &&
+          !!profile.oauthTokenUrl &&
+          !!profile.oauthClientId &&
+          has("client-secret") &&
+          has("refresh-token")
+        : !!profile.smtpPass || has("password");
+
+    return (
+      !!profile.smtpHost &&
+      !!profile.smtpPort &&
+      !!profile.smtpUser &&
+      authenticated
+    );
+  }
+
+  /**
+   * The delivery profile a note names in its `kindle` frontmatter, whose
+   * format and page the preview shows.
+   */
+  private frontmatterProfile(file: TFile): DeliveryProfile | null {
+    const value =
+      this.app.metadataCache.getFileCache(file)?.frontmatter?.kindle;
+    return findProfile(this.settings.profiles, value);
+  }
+
+  /**
+   * The page a note is exported on, with its frontmatter profile and
+   * `kindle-*` overrides, for the preview to paginate.
+   */
+  notePage(file: TFile): PageProfile {
+    const pageProfile = this.frontmatterProfile(file)?.pageProfile;
+    return this.resolvePage(pageProfile || undefined, this.noteSettings(file));
+  }
+
+  /**
+   * The HTML a note exports to, as shown in the Kindle preview. Remote
+   * images are left for the preview to load.
+   */
+  async renderNoteHtml(file: TFile): Promise<string> {
+    const metadata = this.noteMetadata(file);
+    const profile = this.frontmatterProfile(file);
+    const pageProfile = profile?.pageProfile || undefined;
+    const context: ProcessorContext = {
+      title: metadata.title,
+      sourceFile: file,
+      format: profile?.outputFormat || this.settings.outputFormat,
+      warn: () => {},
+    };
+    const content = await this.readDocument(file);
+    const resolved = await this.hooks.processMarkdown(
+      await this.resolveDocument(content, file, pageProfile, {
+        format: context.format,
+      }),
+      context
+    );
+    const html = await this.renderHtml(resolved, metadata.title, {
+      sourceFile: file,
+      pageProfile,
+      metadata,
+      format: context.format,
+    });
+    return this.hooks.processHtml(html, context);
+  }
+
+  /**
+   * Stages 0 and 1 of exporting a note or canvas, without any UI: the
+   * HTML document with the registered processors applied.
+   */
+  async renderFile(
+    file: TFile,
+    pageProfile?: PageProfileId,
+    format = this.settings.outputFormat
+  ): Promise<RenderResult> {
+    const metadata = this.noteMetadata(file);
+    const result: RenderResult = {
+      title: metadata.title,
+      html: "",
+      warnings: [],
+      timings: {},
+    };
+    const context: ProcessorContext = {
+      title: metadata.title,
+      sourceFile: file,
+      format,
+      warn: (warning) => result.warnings.push(warning),
+    };
+    const timer = new StageTimer(result.timings);
+
+    timer.start("resolve");
+    const content = await this.readDocument(file);
+    const resolved = await this.hooks.processMarkdown(
+      await this.resolveDocument(content, file, pageProfile, {
+        remote: this.remoteImages(),
+        onWarning: context.warn,
+        format,
+      }),
+      context
+    );
+
+    timer.start("html");
+    const html = await this.renderHtml(resolved, metadata.title, {
+      sourceFile: file,
+      pageProfile,
+      metadata,
+      format,
+      onWarning: context.warn,
+    });
+    result.html = await this.hooks.processHtml(html, context);
+    timer.stop();
+    return result;
+  }
+
+  /** A note or canvas as a PDF or EPUB, without delivering it. */
+  async generateFile(
+    file: TFile,
+    format: OutputFormat,
+    pageProfile?: PageProfileId
+  ): Promise<DocumentResult> {
+    const result = await this.renderFile(file, pageProfile, format);
+    const timer = new StageTimer(result.timings);
+
+    timer.start("generate");
+    const html = await this.compressImages(result.html, pageProfile);
+    const data = await this.generateDocument(html, format, {
+      title: result.title,
+      metadata: this.noteMetadata(file),
+      pageProfile,
+      sourceFile: file,
+    });
+    timer.stop();
+
+    const filename = `${safeFilename(result.title)}.${format}`;
+    return {
+      ...result,
+      document: { title: result.title, filename, format, data },
+    };
+  }
+
+  /**
+   * Email a finished document with a profile, keeping it in the outbox
+   * if it can't be sent. Only PDFs and EPUBs, told apart by the
+   * filename's extension, can be sent.
+   */
+  async sendDocument(
+    data: Buffer,
+    filename: string,
+    profile: DeliveryProfile | null,
+    subject = filename.replace(/\.(pdf|epub)$/i, "")
+  ): Promise<ExportResult> {
+    const extension = path.extname(filename).substring(1).toLowerCase();
+    const format = isOutputFormat(extension)
+      ? extension
+      : this.settings.outputFormat;
+    const exported = { title: subject, filename, format, data };
+    const result: ExportResult = {
+      ok: false,
+      title: subject,
+      format,
+      destination: "kindle",
+      documents: [exported],
+      queued: false,
+      outboxIds: [],
+      warnings: [],
+      timings: {},
+    };
+    if (!isOutputFormat(extension)) {
+      result.documents = [];
+      result.error = new Error(
+        `"${filename}" can't be sent: only .pdf and .epub files can.`
+      );
+      return result;
+    }
+    if (!profile) {
+      result.error = new Error("There is no such delivery profile.");
+      return result;
+    }
+    if (!this.checkSettings("kindle", profile)) {
+      result.error = new Error(`The "${profile.name}" profile isn't set up.`);
+      return result;
+    }
+
+    const timer = new StageTimer(result.timings);
+    timer.start("deliver");
+    const source = { path: "", title: subject, hash: "" };
+    const { failures, queued } = await this.deliverDocuments(
+      [exported],
+      profile,
+      source
+    );
+    timer.stop();
+
+    result.ok = true;
+    result.queued = failures.length > 0;
+    result.outboxIds = queued;
+    result.error = failures[0];
+    return result;
+  }
+
+  /**
+   * Add a custom destination and an "Export to …" command for it.
+   * Returns a function that removes both. Throws if the id is taken.
+   */
+  addDestination(destination: CustomDestination): () => void {
+    if (
+      Object.prototype.hasOwnProperty.call(DESTINATION_STAGES, destination.id)
+    ) {
+      throw new Error(`"${destination.id}" is a built-in destination.`);
+    }
+    const remove = this.hooks.addDestination(destination);
+    this.addCommand({
+      id: `export-to-${destination.id}`,
+      name: `Export to ${destination.name}`,
+      callback: () => this.export(destination.id),
+    });
+    return () => {
+      remove();
+      this.removeCommand(`export-to-${destination.id}`);
+    };
+  }
+
+  /** Title, author etc. of a note, from its frontmatter. */
+  private noteMetadata(file: TFile): DocumentMetadata {
+    return readMetadata(
+      this.app.metadataCache.getFileCache(file)?.frontmatter,
+      { title: file.basename, author: this.settings.author }
+    );
+  }
+
+  /** A note without its frontmatter, or a canvas's JSON. */
+  private async readDocument(file: TFile): Promise<string> {
+    return file.extension === "canvas"
+      ? this.app.vault.cachedRead(file)
+      : this.readNote(file);
+  }
+
+  /** Read a note without its frontmatter. */
+  private async readNote(file: TFile): Promise<string> {
+    const content = stripFrontmatter(await this.app.vault.cachedRead(file));
+    return scopeFootnotes(content, file.path);
+  }
+
+  /**
+   * Split a document that is over the size limit into "Part i of N"
+   * documents. It is cut into as many parts as its size calls for, and
+   * parts still over the limit are cut again, until each fits or can't
+   * be cut any finer.
+   */
+  private async splitDocument(
+    html: string,
+    title: string,
+    output: Buffer,
+    limit: number,
+    generate: (html: string, title: string) => Promise<Buffer>,
+    reporter: ExportReporter
+  ): Promise<ExportPart[]> {
+    const partTitle = (part: number, total: number) =>
+      `${title} (Part ${part} of ${total})`;
+    const render = async (
+      doc: string,
+      part: number,
+      total: number
+    ): Promise<SplitPart> => {
+      const heading = partTitle(part, total);
+      // The first part starts with the document's own title
+      const withHeading =
+        part === 1
+          ? doc
+          : prependToBody(doc, `<h1>${escapeHtml(heading)}</h1>\n`);
+      return {
+        doc,
+        title: heading,
+        output: await generate(withHeading, heading),
+      };
+    };
+    const renderAll = async (docs: string[], first: number, total: number) => {
+      const parts: SplitPart[] = [];
+      for (let i = 0; i < docs.length; i++) {
+        parts.push(await render(docs[i], first + i, total));
+      }
+      return parts;
+    };
+    const partsFor = (size: number) => Math.max(2, Math.ceil(size / limit));
+
+    const docs = splitHtml(html, partsFor(output.byteLength));
+    if (docs.length === 1) {
+      reporter.addWarning(
+        "The document is over the size limit, but a single image or section is too large to split."
+      );
+      return [{ title, output }];
+    }
+    reporter.setDetail(`Splitting into ${docs.length} parts`);
+    const parts = await renderAll(docs, 1, docs.length);
+
+    let tooLarge = false;
+    for (let i = 0; i < parts.length; i++) {
+      const { doc, output: partOutput } = parts[i];
+      if (partOutput.byteLength <= limit) continue;
+      const pieces = splitHtml(doc, partsFor(partOutput.byteLength));
+      if (pieces.length === 1) {
+        tooLarge = true;
+        continue;
+      }
+      const total = parts.length - 1 + pieces.length;
+      reporter.setDetail(`Splitting into ${total} parts`);
+      parts.splice(i, 1, ...(await renderAll(pieces, i + 1, total)));
+      // Look at the new pieces again, they may still be too large
+      i--;
+    }
+    if (tooLarge) {
+      reporter.addWarning(
+        "A part is still over the size limit: a single image or section is too large to split further."
+      );
+    }
+
+    // Cutting a part again changes the numbers of the parts around it
+    for (let i = 0; i < parts.length; i++) {
+      if (parts[i].title !== partTitle(i + 1, parts.length)) {
+        parts[i] = await render(parts[i].doc, i + 1, parts.length);
+      }
+    }
+    return parts;
+  }
+
+  /**
+   * Run the export stages for a document. The job's `loadContent`
+   * produces the markdown with all embeds resolved (stage 0); the
+   * remaining stages are shared by every kind of export. Registered
+   * processors run on the markdown and the HTML.
+   */
+  private async runExport(job: ExportJob): Promise<ExportResult> {
+    const {
+      title,
+      sourceFile,
+      metadata = readMetadata(undefined, {
+        title,
+        author: this.settings.author,
+      }),
+      loadContent,
+      destination = "kindle",
+      profile,
+      hash = "",
+      silent = false,
+    } = job;
+
+    const format = profile?.outputFormat || this.settings.outputFormat;
+    const pageProfile = profile?.pageProfile || this.settings.pageProfile;
+    const result: ExportResult = {
+      ok: false,
+      title,
+      format,
+      destination,
+      documents: [],
+      queued: false,
+      outboxIds: [],
+      warnings: [],
+      timings: {},
+    };
+
+    if (this.exporting) {
+      if (!silent) {
+        new Notice("Export already in progress.");
+        result.error = new Error("Export already in progress.");
+        return result;
+      }
+      // Background sends wait their turn
+      while (this.exporting) await sleep(1000);
+    }
+
+    const custom = this.hooks.destination(destination);
+    const isBuiltIn = destination in DESTINATION_STAGES;
+    if (!isBuiltIn && !custom) {
+      new Notice(`Unknown export destination "${destination}".`);
+      result.error = new Error(`Unknown export destination "${destination}".`);
+      return result;
     }
 
     this.exporting = true;
-    const modal = new ExportProgressModal(this.app, file.basename);
-    modal.open();
+    let reporter: ExportReporter;
+    if (silent) {
+      reporter = new NoticeReporter(title);
+    } else {
+      const modal = new ExportProgressModal(
+        this.app,
+        title,
+        exportStages(
+          format,
+          custom
+            ? `Delivering to ${custom.name}`
+            : DESTINATION_STAGES[destination as Destination]
+        )
+      );
+      modal.open();
+      reporter = modal;
+    }
+
+    const context: ProcessorContext = {
+      title,
+      sourceFile,
+      format,
+      warn: (warning) => {
+        result.warnings.push(warning);
+        reporter.addWarning(warning);
+      },
+    };
+    const timer = new StageTimer(result.timings);
 
     try {
       // Allow the modal to render before we start blocking work
       await sleep(50);
 
       // Stage 0: Resolve embeds
-      modal.setStage(0);
+      reporter.setStage(0);
+      timer.start("resolve");
       await sleep();
 
-      let content = await this.app.vault.cachedRead(file);
-
-      // Strip frontmatter
-      if (content.startsWith("---")) {
-        const endIdx = content.indexOf("---", 3);
-        if (endIdx !== -1) {
-          content = content.substring(endIdx + 3).trimStart();
-        }
-      }
-
-      content = await this.resolveEmbeds(content, file);
+      const content = await this.hooks.processMarkdown(
+        await loadContent(reporter, {
+          remote: this.remoteImages(),
+          onWarning: context.warn,
+          format,
+        }),
+        context
+      );
 
       // Stage 1: Convert to HTML
-      modal.setStage(1);
+      reporter.setStage(1);
+      timer.start("html");
       await sleep();
 
-      const html = this.markdownToHtml(content, file.basename);
+      let html = await this.renderHtml(content, title, {
+        sourceFile,
+        pageProfile,
+        metadata,
+        format,
+        onWarning: context.warn,
+      });
+      html = await this.hooks.processHtml(html, context);
+      html = await this.compressImages(html, pageProfile, (done, total) =>
+        reporter.setDetail(`Images ${done + 1} / ${total}`)
+      );
 
-      // Stage 2: Generate PDF (this is the heavy/blocking part)
-      modal.setStage(2);
+      // Stage 2: Generate PDF/EPUB (this is the heavy/blocking part)
+      reporter.setStage(2);
+      timer.start("generate");
       await sleep();
 
-      const pdfBuffer = await this.generatePdf(html);
-
-      // Stage 3: Send email
-      modal.setStage(3);
+      const generate = (doc: string, docTitle: string) =>
+        this.generateDocument(doc, format, {
+          title: docTitle,
+          metadata,
+          pageProfile,
+          sourceFile,
+        });
+      const output = await generate(html, title);
+
+      // Mail servers limit the message size, so big documents go in
+      // parts. Attachments grow by a third as base64 in the email.
+      let parts: ExportPart[] = [{ title, output }];
+      const limit = (this.settings.sizeLimit * 1024 * 1024 * 3) / 4;
+      if (destination === "kindle" && limit && output.byteLength > limit) {
+        parts = await this.splitDocument(
+          html,
+          title,
+          output,
+          limit,
+          generate,
+          reporter
+        );
+      }
+      result.documents = parts.map((part) => ({
+        title: part.title,
+        filename: `${safeFilename(part.title)}.${format}`,
+        format,
+        data: part.output,
+      }));
+
+      // Stage 3: Deliver
+      reporter.setStage(3);
+      timer.start("deliver");
       await sleep();
 
-      const filename = `${file.basename}.pdf`;
-      await this.sendEmail(pdfBuffer, filename);
+      const [exported] = result.documents;
+      if (destination === "vault") {
+        result.path = await this.saveToVault(output, exported.filename);
+        reporter.setDone(`Saved to "${result.path}"`);
+      } else if (destination === "file") {
+        result.path = await this.saveToDisk(output, exported.filename);
+        reporter.setDone(`Saved to "${result.path}"`);
+      } else if (custom) {
+        const message = await custom.deliver(exported, context);
+        reporter.setDone(message || `"${title}" delivered to ${custom.name}`);
+      } else if (profile) {
+        const source = {
+          path: sourceFile?.path ?? "",
+          title,
+          hash,
+          excerpt: job.excerpt,
+        };
+        const { failures, queued } = await this.deliverDocuments(
+          result.documents,
+          profile,
+          source,
+          (i, total) => reporter.setDetail(`${i + 1} / ${total}`),
+          silent
+        );
 
-      modal.setDone();
+        if (failures.length) {
+          result.ok = result.queued = true;
+          result.outboxIds = queued;
+          result.error = failures[0];
+          reporter.setError(
+            failures[0],
+            parts.length > 1
+              ? `${failures.length} of ${parts.length} parts were saved to the outbox and will be sent again automatically.`
+              : "The document was saved to the outbox and will be sent again automatically."
+          );
+          return result;
+        }
+        reporter.setDone(
+          parts.length > 1
+            ? `"${title}" sent to ${profile.name} in ${parts.length} parts!`
+            : `"${title}" sent to ${profile.name}!`
+        );
+      }
+      result.ok = true;
+      return result;
     } catch (error) {
       console.error("Kindle PDF Export error:", error);
-      const msg =
-        error instanceof Error ? error.message : String(error);
-      modal.setError(`Export failed: ${msg}`);
+      reporter.setError(error);
+      result.error = error;
+      return result;
     } finally {
+      timer.stop();
       this.exporting = false;
     }
   }
@@ -0,0 +1,11 @@
+/** Escape text for HTML or XML, in content and in attribute values. */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** A line that opens or closes a fenced code block. */
+export const FENCE_RE = /^\s*(```|~~~)/;
@@ -0,0 +1,56 @@
+import { MarkedExtension, Tokens } from "marked";
+import { renderToString } from "katex";
+
+/**
+ * Render TeX to MathML. It needs no fonts or stylesheets, so it prints
+ * the same with no network and is valid inside an EPUB.
+ */
+function renderTex(tex: string, displayMode: boolean): string {
+  return renderToString(tex, {
+    displayMode,
+    output: "mathml",
+    throwOnError: false,
+  });
+}
+
+/**
+ * Obsidian math syntax: `$$…$$` blocks and `$…$` inline. Like Obsidian,
+ * inline math can't start or end with a space, which keeps prices such
+ * as "$5 and $10" as plain text.
+ */
+export function mathExtension(): MarkedExtension {
+  return {
+    extensions: [
+      {
+        name: "mathBlock",
+        level: "block",
+        start(src: string) {
+          return src.match(/^ {0,3}\$\$/m)?.index;
+        },
+        tokenizer(src: string) {
+          const match = src.match(/^ {0,3}\$\$([\s\S]+?)\$\$[ \t]*(?:\n|$)/);
+          if (!match) return undefined;
+          return { type: "mathBlock", raw: match[0], tex: match[1].trim() };
+        },
+        renderer(token: Tokens.Generic) {
+          return `<div class="math-block">${renderTex(token.tex, true)}</div>\n`;
+        },
+      },
+      {
+        name: "mathInline",
+        level: "inline",
+        start(src: string) {
+          return src.indexOf("$");
+        },
+        tokenizer(src: string) {
+          const match = src.match(/^\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/);
+          if (!match) return undefined;
+          return { type: "mathInline", raw: match[0], tex: match[1] };
+        },
+        renderer(token: Tokens.Generic) {
+          return renderTex(token.tex, false);
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,47 @@
+import { loadMermaid } from "obsidian";
+
+const MERMAID_BLOCK_RE = /^```mermaid[ \t]*\n([\s\S]*?)\n```[ \t]*$/gm;
+
+// Grey tones for e-ink, and plain SVG text instead of HTML labels
+// (foreignObject), which neither print nor EPUB readers handle well.
+const MERMAID_INIT =
+  '%%{init: {"theme": "neutral", "flowchart": {"htmlLabels": false}}}%%\n';
+
+let diagramCount = 0;
+
+/**
+ * Replace ```mermaid blocks with inline SVG before the markdown is
+ * converted. Uses the Mermaid build that ships with Obsidian, so it
+ * works offline. A diagram that fails to render stays a code block and
+ * is reported through `onWarning`.
+ */
+export async function renderMermaidBlocks(
+  markdown: string,
+  onWarning: (message: string) => void = () => {}
+): Promise<string> {
+  const blocks = Array.from(markdown.matchAll(MERMAID_BLOCK_RE));
+  if (blocks.length === 0) return markdown;
+
+  const mermaid = await loadMermaid();
+  const rendered: string[] = [];
+
+  for (let i = 0; i < blocks.length; i++) {
+    const [block, source] = blocks[i];
+    const id = `kindle-pdf-mermaid-${++diagramCount}`;
+    try {
+      const { svg } = await mermaid.render(id, MERMAID_INIT + source);
+      // Blank lines would end the HTML block early
+      const inline = (svg as string).replace(/\n\s*\n/g, "\n");
+      rendered.push(`<div class="mermaid-diagram">${inline}</div>`);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      onWarning(`Mermaid diagram ${i + 1} could not be rendered: ${msg}`);
+      rendered.push(block);
+      // Mermaid leaves its scratch element behind when parsing fails
+      document.getElementById(`d${id}`)?.remove();
+    }
+  }
+
+  let n = 0;
+  return markdown.replace(MERMAID_BLOCK_RE, () => rendered[n++]);
+}
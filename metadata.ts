@@ -0,0 +1,87 @@
+import { FrontMatterCache } from "obsidian";
+import { KindlePdfSettings } from "./settings";
+
+/** What a document is called and who wrote it, for the reader's library. */
+export interface DocumentMetadata {
+  title: string;
+  author: string;
+  subtitle: string;
+  date: string;
+  description: string;
+  /** Link to the cover image in the vault, as written in frontmatter. */
+  cover: string;
+}
+
+function text(value: unknown): string {
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number") return String(value);
+  // e.g. several authors
+  if (Array.isArray(value)) return value.map(text).filter(Boolean).join(", ");
+  return "";
+}
+
+/**
+ * Document metadata from a note's `title`, `author`, `subtitle`, `date`,
+ * `description` and `cover` frontmatter. The title falls back to the
+ * note name and the author to the one in the settings.
+ */
+export function readMetadata(
+  frontmatter: FrontMatterCache | undefined,
+  fallback: Pick<DocumentMetadata, "title" | "author">
+): DocumentMetadata {
+  const fm = frontmatter ?? {};
+  return {
+    title: text(fm.title) || fallback.title,
+    author: text(fm.author) || fallback.author,
+    subtitle: text(fm.subtitle),
+    date: text(fm.date),
+    description: text(fm.description),
+    cover: text(fm.cover).replace(/^!?\[\[|\]\]$/g, ""),
+  };
+}
+
+// ── Per-note settings ─────────────────────────────────────────────
+
+type Overridable = {
+  [K in keyof KindlePdfSettings]: KindlePdfSettings[K] extends number | boolean
+    ? K
+    : never;
+}[keyof KindlePdfSettings];
+
+/** Frontmatter keys that override a setting for one note. */
+const NOTE_OVERRIDES: Record<string, Overridable> = {
+  "kindle-font-size": "fontSize",
+  "kindle-line-height": "lineHeight",
+  "kindle-margin": "pageMargin",
+  "kindle-page-breaks": "pageBreakOnHr",
+  "kindle-toc": "tableOfContents",
+  "kindle-toc-depth": "tocDepth",
+  "kindle-line-numbers": "codeLineNumbers",
+  "kindle-cover": "coverPage",
+};
+
+/**
+ * The settings for one note: the plugin settings with the note's
+ * `kindle-*` frontmatter overrides applied. Values of the wrong type are
+ * skipped with a warning.
+ */
+export function applyNoteOverrides(
+  settings: KindlePdfSettings,
+  frontmatter: FrontMatterCache | undefined,
+  onWarning: (message: string) => void = () => {}
+): KindlePdfSettings {
+  const result: Record<string, unknown> = { ...settings };
+  for (const [key, setting] of Object.entries(NOTE_OVERRIDES)) {
+    const value = frontmatter?.[key];
+    if (value === undefined || value === null) continue;
+
+    const type = typeof settings[setting];
+    if (typeof value === type) {
+      result[setting] = value;
+    } else {
+      const expected = type === "boolean" ? "true or false" : "a number";
+      onWarning(`Ignoring "${key}": expected ${expected}.`);
+    }
+  }
+  return result as unknown as KindlePdfSettings;
+}
@@ -0,0 +1,289 @@
+import {
+  App,
+  Events,
+  ItemView,
+  Notice,
+  WorkspaceLeaf,
+  normalizePath,
+} from "obsidian";
+import type KindlePdfPlugin from "./main";
+import { DeliveryProfile } from "./profiles";
+import { explainError, isPermanentError } from "./errors";
+
+export const VIEW_TYPE_KINDLE_OUTBOX = "kindle-pdf-outbox";
+
+// Retries wait 1, 2, 4, … minutes, up to an hour
+const RETRY_BASE = 60 * 1000;
+const RETRY_MAX = 60 * 60 * 1000;
+// After this many attempts only a retry from the outbox view sends it
+const MAX_ATTEMPTS = 10;
+
+/** A document that couldn't be sent, waiting in the outbox. */
+export interface OutboxItem {
+  id: string;
+  filename: string;
+  profileId: string;
+  /** Profile name and recipients when queued, for display. */
+  target: string;
+  size: number;
+  queued: number;
+  attempts: number;
+  lastError: string;
+  /** Time of the next automatic retry. */
+  nextAttempt: number;
+  /** Not retried automatically: the error won't go away by itself. */
+  failed?: boolean;
+  /** The note the document came from, for the send history. */
+  source?: OutboxSource;
+}
+
+export interface OutboxSource {
+  path: string;
+  title: string;
+  hash: string;
+  /** Set when only part of the note was sent, to send it again. */
+  excerpt?: { title: string; markdown: string };
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Unique even for the parts of one document, queued in the same ms. */
+function newItemId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE * 2 ** Math.max(attempts - 1, 0), RETRY_MAX);
+}
+
+/**
+ * Documents whose send failed, kept in the plugin folder until they go
+ * through. Each document is stored next to an index of the queue.
+ * Triggers "change" whenever the queue changes, and "sent" with each
+ * item once it has been sent.
+ *
+ * Automatic retries skip items that `ready` says can't be sent without
+ * asking the user anything, and items that have failed for good.
+ */
+export class Outbox extends Events {
+  private items: OutboxItem[] = [];
+  private retrying = false;
+
+  constructor(
+    private app: App,
+    private dir: string,
+    private deliver: (item: OutboxItem, content: Buffer) => Promise<void>,
+    private ready: (item: OutboxItem) => boolean = () => true
+  ) {
+    super();
+  }
+
+  private get indexPath(): string {
+    return normalizePath(`${this.dir}/index.json`);
+  }
+
+  private filePath(item: OutboxItem): string {
+    return normalizePath(`${this.dir}/${item.id}-${item.filename}`);
+  }
+
+  async load() {
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(this.indexPath))) return;
+    try {
+      this.items = JSON.parse(await adapter.read(this.indexPath));
+    } catch (error) {
+      console.warn("Kindle PDF: unreadable outbox index", error);
+      // Keep it, as the next save would overwrite it
+      const backup = `${this.indexPath}.${Date.now()}.bak`;
+      await adapter.rename(this.indexPath, backup);
+      new Notice(
+        `The Kindle outbox couldn't be read and starts empty. Its index was kept as "${backup}".`
+      );
+      this.items = [];
+    }
+  }
+
+  list(): OutboxItem[] {
+    return this.items.slice();
+  }
+
+  async add(
+    content: Buffer,
+    filename: string,
+    profile: DeliveryProfile,
+    error: unknown,
+    source?: OutboxSource
+  ): Promise<OutboxItem> {
+    const item: OutboxItem = {
+      id: newItemId(),
+      filename,
+      profileId: profile.id,
+      target: `${profile.name} (${profile.recipients.join(", ")})`,
+      size: content.byteLength,
+      queued: Date.now(),
+      attempts: 1,
+      lastError: explainError(error).message,
+      nextAttempt: Date.now() + retryDelay(1),
+      failed: isPermanentError(error),
+      source,
+    };
+
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(this.dir))) await adapter.mkdir(this.dir);
+    const data = content.buffer.slice(
+      content.byteOffset,
+      content.byteOffset + content.byteLength
+    ) as ArrayBuffer;
+    await adapter.writeBinary(this.filePath(item), data);
+
+    this.items.push(item);
+    await this.save();
+    return item;
+  }
+
+  async remove(id: string) {
+    const item = this.items.find((i) => i.id === id);
+    if (!item) return;
+
+    const adapter = this.app.vault.adapter;
+    if (await adapter.exists(this.filePath(item))) {
+      await adapter.remove(this.filePath(item));
+    }
+    this.items.remove(item);
+    await this.save();
+  }
+
+  /**
+   * Send waiting documents. By default only those whose backoff has
+   * passed; `force` retries right away (e.g. when back online), and
+   * `id` limits the retry to one item. `manual` is for retries the user
+   * asked for, which include failed items and may ask for a passphrase.
+   * Returns how many were sent, or "busy" if a retry is still running.
+   */
+  async retry(
+    options: { force?: boolean; id?: string; manual?: boolean } = {}
+  ): Promise<number | "busy"> {
+    if (this.retrying) return "busy";
+    this.retrying = true;
+
+    let sent = 0;
+    try {
+      const now = Date.now();
+      const due = this.items.filter(
+        (item) =>
+          (!options.id || item.id === options.id) &&
+          (options.manual ||
+            (!item.failed &&
+              this.ready(item) &&
+              (options.force || item.nextAttempt <= now)))
+      );
+
+      for (const item of due) {
+        try {
+          const data = await this.app.vault.adapter.readBinary(
+            this.filePath(item)
+          );
+          await this.deliver(item, Buffer.from(data));
+        } catch (error) {
+          item.attempts++;
+          item.lastError = explainError(error).message;
+          item.nextAttempt = Date.now() + retryDelay(item.attempts);
+          item.failed =
+            isPermanentError(error) || item.attempts >= MAX_ATTEMPTS;
+          await this.save();
+          continue;
+        }
+        await this.remove(item.id);
+        this.trigger("sent", item);
+        sent++;
+      }
+    } finally {
+      this.retrying = false;
+    }
+    return sent;
+  }
+
+  private async save() {
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(this.dir))) await adapter.mkdir(this.dir);
+    await adapter.write(this.indexPath, JSON.stringify(this.items, null, 2));
+    this.trigger("change");
+  }
+}
+
+/** Lists the documents waiting in the outbox, with retry and delete. */
+export class OutboxView extends ItemView {
+  constructor(leaf: WorkspaceLeaf, private plugin: KindlePdfPlugin) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_KINDLE_OUTBOX;
+  }
+
+  getDisplayText(): string {
+    return "Kindle outbox";
+  }
+
+  getIcon(): string {
+    return "inbox";
+  }
+
+  async onOpen() {
+    this.contentEl.addClass("kindle-pdf-outbox");
+    this.addAction("refresh-cw", "Retry all", () => this.retry());
+    this.registerEvent(this.plugin.outbox.on("change", () => this.render()));
+    this.render();
+  }
+
+  private async retry(id?: string) {
+    const sent = await this.plugin.outbox.retry({ manual: true, id });
+    if (sent === "busy") new Notice("Already sending…");
+    else if (!sent && id) new Notice("Sending failed again.");
+  }
+
+  render() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const items = this.plugin.outbox.list();
+    if (!items.length) {
+      contentEl.createDiv({
+        text: "The outbox is empty.",
+        cls: "kindle-pdf-outbox-empty",
+      });
+      return;
+    }
+
+    for (const item of items) {
+      const row = contentEl.createDiv("kindle-pdf-outbox-item");
+      row.createDiv({ text: item.filename, cls: "kindle-pdf-outbox-name" });
+      row.createDiv({
+        text: `${formatSize(item.size)} · ${item.target}`,
+        cls: "kindle-pdf-outbox-meta",
+      });
+      const next = item.failed
+        ? "not retried automatically"
+        : `next retry ${new Date(item.nextAttempt).toLocaleTimeString()}`;
+      row.createDiv({
+        text: `Queued ${new Date(item.queued).toLocaleString()}, ${
+          item.attempts
+        } attempt${item.attempts === 1 ? "" : "s"}, ${next}`,
+        cls: "kindle-pdf-outbox-meta",
+      });
+      row.createDiv({ text: item.lastError, cls: "kindle-pdf-outbox-error" });
+
+      const actions = row.createDiv("kindle-pdf-outbox-actions");
+      actions
+        .createEl("button", { text: "Retry", cls: "mod-cta" })
+        .addEventListener("click", () => this.retry(item.id));
+      actions
+        .createEl("button", { text: "Delete", cls: "mod-warning" })
+        .addEventListener("click", () => this.plugin.outbox.remove(item.id));
+    }
+  }
+}
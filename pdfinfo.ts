@@ -0,0 +1,74 @@
+/** Entries of a PDF's document information dictionary. */
+export interface PdfInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+}
+
+const KEYS: Record<keyof PdfInfo, string> = {
+  title: "Title",
+  author: "Author",
+  subject: "Subject",
+};
+
+// A literal (…) or hex <…> string
+const PDF_STRING = String.raw`(?:\((?:\\.|[^\\)])*\)|<[0-9A-Fa-f\s]*>)`;
+
+/** A PDF text string, as UTF-16BE so any script survives. */
+function pdfString(text: string): string {
+  const utf16 = Buffer.from(text, "utf16le").swap16();
+  return `<FEFF${utf16.toString("hex").toUpperCase()}>`;
+}
+
+/**
+ * Set the Title, Author and Subject of a PDF by appending an incremental
+ * update, which leaves the original bytes untouched. Entries the PDF
+ * already has (e.g. Producer) are kept. A PDF without a classic
+ * cross-reference table, as Chromium writes, is returned as it is.
+ */
+export function setPdfInfo(pdf: Buffer, info: PdfInfo): Buffer {
+  const end = pdf.subarray(Math.max(0, pdf.length - 1024)).toString("latin1");
+  const startxref = end.match(/startxref\s+(\d+)\s+%%EOF\s*$/);
+  if (!startxref) return pdf;
+  const prev = Number(startxref[1]);
+
+  const trailerAt = pdf.lastIndexOf("trailer");
+  if (trailerAt < prev) return pdf;
+  const trailer = pdf.subarray(trailerAt).toString("latin1");
+  const size = trailer.match(/\/Size\s+(\d+)/);
+  const root = trailer.match(/\/Root\s+(\d+\s+\d+\s+R)/);
+  if (!size || !root) return pdf;
+
+  // Carry over the entries of the current information dictionary
+  let entries = "";
+  const oldInfo = trailer.match(/\/Info\s+(\d+)\s+(\d+)\s+R/);
+  if (oldInfo) {
+    const at = pdf.lastIndexOf(`\n${oldInfo[1]} ${oldInfo[2]} obj`);
+    if (at !== -1) {
+      const object = pdf.subarray(at, pdf.indexOf("endobj", at));
+      const dict = object.toString("latin1").match(/<<([\s\S]*)>>/);
+      if (dict) entries = dict[1].trim();
+    }
+  }
+
+  for (const [field, key] of Object.entries(KEYS)) {
+    const value = info[field as keyof PdfInfo];
+    if (!value) continue;
+    entries = entries.replace(new RegExp(`/${key}\\s*${PDF_STRING}`), "");
+    entries += ` /${key} ${pdfString(value)}`;
+  }
+
+  const id = Number(size[1]);
+  const objectAt = pdf.length + 1;
+  const object = `\n${id} 0 obj\n<< ${entries.trim()} >>\nendobj\n`;
+  const xrefAt = objectAt + object.length - 1;
+  const fileId = trailer.match(/\/ID\s*\[[^\]]*\]/);
+  const update =
+    object +
+    `xref\n${id} 1\n${String(objectAt).padStart(10, "0")} 00000 n \n` +
+    `trailer\n<< /Size ${id + 1} /Root ${root[1]} /Info ${id} 0 R` +
+    `${fileId ? ` ${fileId[0]}` : ""} /Prev ${prev} >>\n` +
+    `startxref\n${xrefAt}\n%%EOF\n`;
+
+  return Buffer.concat([pdf, Buffer.from(update, "latin1")]);
+}
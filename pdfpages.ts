@@ -0,0 +1,69 @@
+import { loadPdfJs } from "obsidian";
+
+// Whole-PDF embeds stop here, to keep documents (and memory) in check
+export const MAX_PDF_PAGES = 50;
+
+export interface PageRange {
+  first: number;
+  /** Inclusive; Infinity for "to the end". */
+  last: number;
+}
+
+/** The pages of an embed's `#page=3` or `#page=3-5`; all pages otherwise. */
+export function parsePageRange(subpath: string): PageRange {
+  const match = subpath.match(/page=(\d+)(?:-(\d+))?/);
+  if (!match) return { first: 1, last: Infinity };
+  const first = Math.max(1, parseInt(match[1]));
+  return { first, last: match[2] ? parseInt(match[2]) : first };
+}
+
+export interface RenderedPages {
+  /** PNG data URIs, one per page. */
+  images: string[];
+  /** Pages in the PDF, to tell when some were left out. */
+  pageCount: number;
+}
+
+/**
+ * Render pages of a PDF to images with Obsidian's PDF.js, `width`
+ * pixels wide on a white background. At most MAX_PDF_PAGES are
+ * rendered.
+ */
+export async function renderPdfPages(
+  data: ArrayBuffer,
+  range: PageRange,
+  width: number
+): Promise<RenderedPages> {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+
+  try {
+    const images: string[] = [];
+    const last = Math.min(
+      range.last,
+      pdf.numPages,
+      range.first + MAX_PDF_PAGES - 1
+    );
+    for (let n = range.first; n <= last; n++) {
+      const page = await pdf.getPage(n);
+      const viewport = page.getViewport({
+        scale: width / page.getViewport({ scale: 1 }).width,
+      });
+
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) break;
+      ctx.fillStyle = "white";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      images.push(canvas.toDataURL("image/png"));
+      page.cleanup();
+    }
+    return { images, pageCount: pdf.numPages };
+  } finally {
+    await pdf.destroy();
+  }
+}
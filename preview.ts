@@ -0,0 +1,182 @@
+import { ItemView, TFile, WorkspaceLeaf, debounce } from "obsidian";
+import type KindlePdfPlugin from "./main";
+import { fitCanvasCards, isExportable } from "./canvas";
+
+export const VIEW_TYPE_KINDLE_PREVIEW = "kindle-pdf-preview";
+
+const MM_TO_PX = 96 / 25.4;
+
+/**
+ * Shows the active note the way it will look on the Kindle: the HTML
+ * from markdownToHtml, split into pages of the chosen page profile.
+ */
+export class KindlePreviewView extends ItemView {
+  private file: TFile | null = null;
+  private frame: HTMLIFrameElement;
+  private statusEl: HTMLElement;
+  private renderId = 0;
+
+  constructor(leaf: WorkspaceLeaf, private plugin: KindlePdfPlugin) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_KINDLE_PREVIEW;
+  }
+
+  getDisplayText(): string {
+    return "Kindle preview";
+  }
+
+  getIcon(): string {
+    return "tablet";
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("kindle-pdf-preview");
+
+    this.statusEl = contentEl.createDiv("kindle-pdf-preview-status");
+    // No scripts run in the note's HTML; same origin lets us paginate it
+    this.frame = contentEl.createEl("iframe", {
+      cls: "kindle-pdf-preview-frame",
+      attr: { sandbox: "allow-same-origin" },
+    });
+
+    this.addAction("send", "Send to Kindle", () => {
+      if (this.file) this.plugin.exportNote(this.file);
+    });
+    this.addAction("refresh-cw", "Refresh preview", () => this.render());
+
+    const rerender = debounce(() => this.render(), 500, true);
+
+    this.registerEvent(
+      this.app.workspace.on("file-open", (file) => {
+        if (!file || !isExportable(file) || file === this.file) return;
+        this.file = file;
+        this.render();
+      })
+    );
+
+    this.registerEvent(
+      this.app.vault.on("modify", (file) => {
+        if (file === this.file) rerender();
+      })
+    );
+
+    this.file = this.app.workspace.getActiveFile();
+    await this.render();
+  }
+
+  async render() {
+    const renderId = ++this.renderId;
+    const file = this.file;
+
+    if (!file || !isExportable(file)) {
+      this.statusEl.setText("Open a note or canvas to preview it.");
+      this.frame.srcdoc = "";
+      return;
+    }
+
+    this.statusEl.setText(`Rendering "${file.basename}"…`);
+
+    try {
+      const html = await this.plugin.renderNoteHtml(file);
+      // A newer render started while this one was running
+      if (renderId !== this.renderId) return;
+
+      await new Promise<void>((resolve) => {
+        this.frame.onload = () => resolve();
+        this.frame.srcdoc = html;
+      });
+
+      if (this.frame.contentDocument) {
+        fitCanvasCards(this.frame.contentDocument);
+      }
+      const pages = this.paginate(file);
+      this.statusEl.setText(
+        `${file.basename} — ${pages} page${pages === 1 ? "" : "s"}`
+      );
+    } catch (error) {
+      console.error("Kindle preview error:", error);
+      const msg = error instanceof Error ? error.message : String(error);
+      this.statusEl.setText(`Preview failed: ${msg}`);
+    }
+  }
+
+  /**
+   * Move the rendered blocks into fixed-size pages, starting a new page
+   * when a block no longer fits or at an explicit page break. A block
+   * taller than a page gets a page of its own and is scaled down to
+   * fit it. Returns the number of pages.
+   */
+  private paginate(file: TFile): number {
+    const doc = this.frame.contentDocument;
+    if (!doc) return 0;
+
+    const profile = this.plugin.notePage(file);
+    const pageWidth = profile.width * MM_TO_PX;
+    const pageHeight = profile.height * MM_TO_PX;
+    const margin = profile.margin * MM_TO_PX;
+
+    const style = doc.createElement("style");
+    style.textContent = `
+      html { background: #888; }
+      body { padding: 16px 0; background: transparent; }
+      .kindle-preview-page {
+        box-sizing: border-box;
+        width: ${pageWidth}px;
+        height: ${pageHeight}px;
+        padding: ${margin}px;
+        margin: 0 auto 16px;
+        background: white;
+        overflow: hidden;
+        box-shadow: 0 1px 4px rgba(0, 0, 0, 0.4);
+      }
+      .kindle-preview-page > :first-child { margin-top: 0; }
+    `;
+    doc.head.appendChild(style);
+
+    // The iframe is its own realm, so stick to plain DOM methods here
+    const blocks = Array.from(doc.body.children);
+    doc.body.replaceChildren();
+
+    let pages = 0;
+    const newPage = () => {
+      const el = doc.createElement("div");
+      el.className = "kindle-preview-page";
+      doc.body.appendChild(el);
+      pages++;
+      return el;
+    };
+
+    let page = newPage();
+    for (const block of blocks) {
+      if (block.classList.contains("kindle-pdf-page-break")) {
+        if (page.childElementCount) page = newPage();
+        continue;
+      }
+
+      page.appendChild(block);
+      if (page.scrollHeight <= page.clientHeight) continue;
+      if (page.childElementCount > 1) {
+        page = newPage();
+        page.appendChild(block);
+      }
+      if (page.scrollHeight > page.clientHeight) {
+        const el = block as HTMLElement;
+        const height = el.getBoundingClientRect().height;
+        el.style.zoom = String((pageHeight - 2 * margin) / height);
+      }
+    }
+
+    // Scale the pages down to fit a narrow pane
+    const available = this.frame.clientWidth - 32;
+    if (available > 0 && available < pageWidth) {
+      doc.body.style.zoom = String(available / pageWidth);
+    }
+
+    return pages;
+  }
+}
@@ -0,0 +1,165 @@
+import { App, FuzzySuggestModal } from "obsidian";
+import { PageProfileId } from "./devices";
+import { OutputFormat } from "./settings";
+import { SmtpAuth, SmtpPresetId, SmtpSecurity } from "./smtp";
+
+/**
+ * A named way of sending documents: who receives them, which account
+ * sends them, and what they are sent as.
+ */
+export interface DeliveryProfile {
+  /** Stable id, so hotkeys survive renaming the profile. */
+  id: string;
+  name: string;
+  /** Kindle addresses that receive every document. */
+  recipients: string[];
+  senderEmail: string;
+  /** Provider whose settings were last applied, "custom" if edited. */
+  smtpPreset: SmtpPresetId;
+  smtpHost: string;
+  smtpPort: string;
+  smtpSecurity: SmtpSecurity;
+  smtpAuth: SmtpAuth;
+  smtpUser: string;
+  oauthClientId: string;
+  /** Empty for Google's token endpoint, nodemailer's default. */
+  oauthTokenUrl: string;
+  /**
+   * Plaintext password from older versions, moved to the credential
+   * store when the plugin loads.
+   */
+  smtpPass?: string;
+  /** Empty to use the output format from the Output settings. */
+  outputFormat: OutputFormat | "";
+  /** Empty to use the page profile from the PDF settings. */
+  pageProfile: PageProfileId | "";
+}
+
+// Top-level keys from before profiles existed
+const LEGACY_KEYS = [
+  "senderEmail",
+  "kindleEmail",
+  "smtpHost",
+  "smtpPort",
+  "smtpUser",
+  "smtpPass",
+];
+
+export function createProfile(
+  name: string,
+  fields: Partial<DeliveryProfile> = {}
+): DeliveryProfile {
+  return {
+    id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+    name,
+    recipients: [],
+    senderEmail: "",
+    smtpPreset: "custom",
+    smtpHost: "",
+    smtpPort: "587",
+    smtpSecurity: "starttls",
+    smtpAuth: "password",
+    smtpUser: "",
+    oauthClientId: "",
+    oauthTokenUrl: "",
+    outputFormat: "",
+    pageProfile: "",
+    ...fields,
+  };
+}
+
+/**
+ * Turn the single account of older settings into the first profile,
+ * removing the old keys from `data`.
+ */
+export function takeLegacyProfile(
+  data: Record<string, unknown>
+): DeliveryProfile {
+  const value = (key: string) =>
+    typeof data[key] === "string" ? (data[key] as string) : "";
+
+  const profile = createProfile("Kindle", {
+    recipients: value("kindleEmail") ? [value("kindleEmail")] : [],
+    senderEmail: value("senderEmail"),
+    smtpHost: value("smtpHost"),
+    smtpPort: value("smtpPort") || "587",
+    smtpSecurity: value("smtpPort") === "465" ? "ssl" : "starttls",
+    smtpUser: value("smtpUser"),
+    smtpPass: value("smtpPass"),
+  });
+
+  for (const key of LEGACY_KEYS) delete data[key];
+  return profile;
+}
+
+/**
+ * Fill in fields added since a saved profile was created. Before the
+ * TLS mode could be chosen, port 465 meant SSL and anything else
+ * STARTTLS.
+ */
+export function upgradeProfile(
+  saved: Partial<DeliveryProfile> & { id: string; name: string }
+): DeliveryProfile {
+  return {
+    ...createProfile(saved.name),
+    smtpSecurity: saved.smtpPort === "465" ? "ssl" : "starttls",
+    ...saved,
+  };
+}
+
+export type ProfileSecret = "password" | "client-secret" | "refresh-token";
+
+/** The credential store id of one of a profile's secrets. */
+export function secretId(
+  profile: DeliveryProfile,
+  secret: ProfileSecret
+): string {
+  // Passwords were stored under the bare profile id before OAuth2
+  return secret === "password" ? profile.id : `${profile.id}:${secret}`;
+}
+
+/** Look up a profile by name or id, as typed in frontmatter. */
+export function findProfile(
+  profiles: DeliveryProfile[],
+  value: unknown
+): DeliveryProfile | null {
+  if (typeof value !== "string") return null;
+  const wanted = value.trim().toLowerCase();
+  return (
+    profiles.find(
+      (p) => p.id === wanted || p.name.trim().toLowerCase() === wanted
+    ) || null
+  );
+}
+
+/** Split a list of addresses typed one per line or comma-separated. */
+export function parseRecipients(value: string): string[] {
+  return value
+    .split(/[\n,;]/)
+    .map((address) => address.trim())
+    .filter(Boolean);
+}
+
+export class ProfileSuggestModal extends FuzzySuggestModal<DeliveryProfile> {
+  constructor(
+    app: App,
+    private profiles: DeliveryProfile[],
+    private onChoose: (profile: DeliveryProfile) => void
+  ) {
+    super(app);
+    this.setPlaceholder("Choose a delivery profile");
+  }
+
+  getItems(): DeliveryProfile[] {
+    return this.profiles;
+  }
+
+  getItemText(profile: DeliveryProfile): string {
+    const recipients = profile.recipients.join(", ");
+    return recipients ? `${profile.name} (${recipients})` : profile.name;
+  }
+
+  onChooseItem(profile: DeliveryProfile): void {
+    this.onChoose(profile);
+  }
+}
@@ -0,0 +1,172 @@
+import { after, before, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as http from "http";
+import { AddressInfo } from "net";
+import {
+  RemoteImageFetcher,
+  RemoteImageOptions,
+  isAllowed,
+  parseDomainList,
+} from "./remote";
+
+const PNG = Buffer.from("89504e470d0a1a0a", "hex");
+
+let server: http.Server;
+let base: string;
+const requests: string[] = [];
+
+function options(changes: Partial<RemoteImageOptions> = {}) {
+  return {
+    timeout: 1000,
+    maxSize: 1024,
+    allow: [],
+    deny: [],
+    ...changes,
+  };
+}
+
+function fetch(path: string, changes: Partial<RemoteImageOptions> = {}) {
+  return new RemoteImageFetcher(options(changes)).fetch(`${base}${path}`);
+}
+
+before(async () => {
+  server = http.createServer((request, response) => {
+    const url = request.url ?? "";
+    requests.push(url);
+    const hop = url.match(/^\/slow\/(\d+)$/);
+    if (hop) {
+      // Each hop is well within the timeout, the chain is not
+      setTimeout(() => {
+        response.writeHead(302, { Location: `/slow/${Number(hop[1]) + 1}` });
+        response.end();
+      }, 150);
+      return;
+    }
+    switch (url) {
+      case "/image.png":
+        response.writeHead(200, { "Content-Type": "image/png" });
+        response.end(PNG);
+        return;
+      case "/untyped.png":
+        response.writeHead(200);
+        response.end(PNG);
+        return;
+      case "/big":
+        // No Content-Length, so only counting the body finds it too big
+        response.writeHead(200, { "Content-Type": "image/png" });
+        response.write(Buffer.alloc(800));
+        response.end(Buffer.alloc(800));
+        return;
+      case "/loop":
+        response.writeHead(302, { Location: "/loop" });
+        response.end();
+        return;
+      case "/to-localhost":
+        response.writeHead(302, {
+          Location: base.replace("127.0.0.1", "localhost") + "/image.png",
+        });
+        response.end();
+        return;
+      case "/page":
+        response.writeHead(200, { "Content-Type": "text/html" });
+        response.end("<p>not an image</p>");
+        return;
+      default:
+        response.writeHead(404);
+        response.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+describe("RemoteImageFetcher", () => {
+  it("downloads an image", async () => {
+    const image = await fetch("/image.png");
+    assert.equal(image.mime, "image/png");
+    assert.deepEqual(image.data, PNG);
+  });
+
+  it("takes the type from the extension when the server doesn't say", async () => {
+    const image = await fetch("/untyped.png");
+    assert.equal(image.mime, "image/png");
+  });
+
+  it("downloads each address once", async () => {
+    const fetcher = new RemoteImageFetcher(options());
+    const before = requests.length;
+    await fetcher.fetch(`${base}/image.png`);
+    await fetcher.fetch(`${base}/image.png`);
+    assert.equal(requests.length, before + 1);
+  });
+
+  it("times out a redirect chain that takes longer than the timeout", async () => {
+    const started = Date.now();
+    await assert.rejects(fetch("/slow/1", { timeout: 400 }), /timed out/);
+    assert.ok(Date.now() - started < 600);
+  });
+
+  it("refuses a body over the size limit", async () => {
+    await assert.rejects(fetch("/big"), /larger than 1 KB/);
+  });
+
+  it("stops following a redirect loop", async () => {
+    await assert.rejects(fetch("/loop"), /too many redirects/);
+  });
+
+  it("doesn't follow a redirect to a domain that isn't allowed", async () => {
+    await assert.rejects(
+      fetch("/to-localhost", { allow: ["127.0.0.1"] }),
+      /redirected to a blocked domain/
+    );
+    await assert.rejects(
+      fetch("/to-localhost", { deny: ["localhost"] }),
+      /redirected to a blocked domain/
+    );
+  });
+
+  it("refuses content that isn't an image", async () => {
+    await assert.rejects(fetch("/page"), /not an image/);
+  });
+});
+
+describe("isAllowed", () => {
+  it("allows every http(s) domain by default", () => {
+    assert.ok(isAllowed("https://example.com/a.png", options()));
+    assert.ok(isAllowed("http://example.com/a.png", options()));
+    assert.ok(!isAllowed("ftp://example.com/a.png", options()));
+    assert.ok(!isAllowed("not a url", options()));
+  });
+
+  it("allows only the listed domains and their subdomains", () => {
+    const allow = options({ allow: ["example.com"] });
+    assert.ok(isAllowed("https://example.com/a.png", allow));
+    assert.ok(isAllowed("https://img.example.com/a.png", allow));
+    assert.ok(!isAllowed("https://badexample.com/a.png", allow));
+    assert.ok(!isAllowed("https://example.org/a.png", allow));
+  });
+
+  it("denies listed domains, even when they are allowed", () => {
+    const deny = options({
+      allow: ["example.com"],
+      deny: ["ads.example.com"],
+    });
+    assert.ok(isAllowed("https://example.com/a.png", deny));
+    assert.ok(!isAllowed("https://ads.example.com/a.png", deny));
+    assert.ok(!isAllowed("https://x.ads.example.com/a.png", deny));
+  });
+});
+
+describe("parseDomainList", () => {
+  it("reads domains separated by lines or commas", () => {
+    assert.deepEqual(parseDomainList("Example.com, *.cdn.net\n.img.org\n\n"), [
+      "example.com",
+      "cdn.net",
+      "img.org",
+    ]);
+  });
+});
@@ -0,0 +1,169 @@
+import * as http from "http";
+import * as https from "https";
+
+export interface RemoteImageOptions {
+  /** For the whole download, in milliseconds. */
+  timeout: number;
+  /** Largest image to download, in bytes. */
+  maxSize: number;
+  /** Domains to download from; empty allows all but the denied ones. */
+  allow: string[];
+  deny: string[];
+}
+
+export interface RemoteImage {
+  mime: string;
+  data: Buffer;
+}
+
+const MAX_REDIRECTS = 5;
+
+// For servers that don't say what they send
+const EXTENSION_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  svg: "image/svg+xml",
+  bmp: "image/bmp",
+  webp: "image/webp",
+  avif: "image/avif",
+  heic: "image/heic",
+  heif: "image/heif",
+};
+
+/** A list of domains typed one per line or separated by commas. */
+export function parseDomainList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((domain) =>
+      domain
+        .trim()
+        .toLowerCase()
+        .replace(/^\*?\./, "")
+    )
+    .filter(Boolean);
+}
+
+/** A domain in the list matches itself and its subdomains. */
+function matchesDomain(host: string, domains: string[]): boolean {
+  return domains.some((d) => host === d || host.endsWith(`.${d}`));
+}
+
+/** Whether an http(s) URL may be downloaded under the allow/deny lists. */
+export function isAllowed(url: string, options: RemoteImageOptions): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return false;
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  if (matchesDomain(host, options.deny)) return false;
+  return !options.allow.length || matchesDomain(host, options.allow);
+}
+
+function imageType(contentType: string | undefined, url: string): string {
+  const type = (contentType || "").split(";")[0].trim().toLowerCase();
+  if (type.startsWith("image/")) return type;
+  if (type && type !== "application/octet-stream") return "";
+
+  const ext = new URL(url).pathname.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_TYPES[ext] ?? "";
+}
+
+/**
+ * Download one image, following redirects to allowed domains. Fails on
+ * any status but 200, content that isn't an image, or more than
+ * `maxSize` bytes, and when the whole download, redirects included,
+ * isn't done by `deadline`.
+ */
+function download(
+  url: string,
+  options: RemoteImageOptions,
+  deadline = Date.now() + options.timeout,
+  redirects = MAX_REDIRECTS
+): Promise<RemoteImage> {
+  return new Promise((resolve, reject) => {
+    const client = url.startsWith("https:") ? https : http;
+    const request = client.get(
+      url,
+      { headers: { Accept: "image/*", "User-Agent": "Obsidian Kindle PDF" } },
+      (response) => {
+        const { statusCode = 0, headers } = response;
+        const fail = (message: string) => {
+          request.destroy();
+          reject(new Error(message));
+        };
+
+        if (statusCode >= 300 && statusCode < 400 && headers.location) {
+          const next = new URL(headers.location, url).toString();
+          if (!redirects) return fail("too many redirects");
+          if (!isAllowed(next, options)) {
+            return fail("redirected to a blocked domain");
+          }
+          request.destroy();
+          download(next, options, deadline, redirects - 1).then(
+            resolve,
+            reject
+          );
+          return;
+        }
+        if (statusCode !== 200) return fail(`HTTP ${statusCode}`);
+
+        const mime = imageType(headers["content-type"], url);
+        if (!mime) return fail("not an image");
+        const tooLarge = `larger than ${Math.round(options.maxSize / 1024)} KB`;
+        if (Number(headers["content-length"]) > options.maxSize) {
+          return fail(tooLarge);
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        response.on("data", (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > options.maxSize) fail(tooLarge);
+          else chunks.push(chunk);
+        });
+        response.on("end", () =>
+          resolve({ mime, data: Buffer.concat(chunks) })
+        );
+        response.on("error", reject);
+      }
+    );
+
+    const timer = setTimeout(
+      () => request.destroy(new Error("timed out")),
+      Math.max(0, deadline - Date.now())
+    );
+    request.on("close", () => clearTimeout(timer));
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Downloads remote images for one export. Each URL is fetched once;
+ * later embeds of the same URL share the result, failures included.
+ */
+export class RemoteImageFetcher {
+  private cache = new Map<string, Promise<RemoteImage>>();
+
+  constructor(private options: RemoteImageOptions) {}
+
+  allows(url: string): boolean {
+    return isAllowed(url, this.options);
+  }
+
+  fetch(url: string): Promise<RemoteImage> {
+    let image = this.cache.get(url);
+    if (!image) {
+      image = download(url, this.options);
+      this.cache.set(url, image);
+    }
+    return image;
+  }
+}
@@ -0,0 +1,40 @@
+import { CachedMetadata, resolveSubpath } from "obsidian";
+
+/** The part of a note under one heading. */
+export interface Section {
+  /** The heading's text, without the #s. */
+  heading: string;
+  level: number;
+  /** Everything under the heading, including its subheadings. */
+  body: string;
+}
+
+/**
+ * The section a line is in: that of the closest heading above it. It
+ * ends where `![[note#heading]]` would end, so the headings and the
+ * bounds are Obsidian's, from the note's metadata `cache`.
+ */
+export function sectionAt(
+  cache: CachedMetadata,
+  text: string,
+  line: number
+): Section | null {
+  const headings = cache.headings ?? [];
+  const heading = headings.filter((h) => h.position.start.line <= line).pop();
+  if (!heading) return null;
+
+  const start = heading.position.start.offset;
+  const target = resolveSubpath(cache, `#${heading.heading}`);
+  // Of several headings with the same text, that finds the first
+  const end =
+    target?.type === "heading" && target.current.position.start.offset === start
+      ? target.end
+      : headings.find(
+          (h) => h.position.start.offset > start && h.level <= heading.level
+        )?.position.start;
+  return {
+    heading: heading.heading,
+    level: heading.level,
+    body: text.slice(heading.position.end.offset, end?.offset).trim(),
+  };
+}
@@ -1,34 +1,156 @@
 import KindlePdfPlugin from "./main";
-import { App, PluginSettingTab, Setting } from "obsidian";
+import {
+  App,
+  ButtonComponent,
+  DropdownComponent,
+  Notice,
+  PluginSettingTab,
+  Setting,
+  debounce,
+} from "obsidian";
+import { BatchOrder } from "./batch";
+import { DigestSchedule, MarkerAction } from "./autosend";
+import { CanvasLayout } from "./canvas";
+import { PAGE_PROFILES, PageProfileId } from "./devices";
+import { CodeTheme } from "./code";
+import { CustomCssMode, THEMES, ThemeId } from "./themes";
+import {
+  DeliveryProfile,
+  ProfileSecret,
+  createProfile,
+  parseRecipients,
+  secretId,
+} from "./profiles";
+import {
+  SMTP_PRESETS,
+  SmtpAuth,
+  SmtpPresetId,
+  SmtpSecurity,
+  supportsOAuth2,
+} from "./smtp";
+import { explainError } from "./errors";
+
+export type OutputFormat = "pdf" | "epub";
+export type OverwritePolicy = "overwrite" | "version";
 
 export interface KindlePdfSettings {
   author: string;
-  senderEmail: string;
-  kindleEmail: string;
-  smtpHost: string;
-  smtpPort: string;
-  smtpUser: string;
-  smtpPass: string;
+  profiles: DeliveryProfile[];
+  outputFormat: OutputFormat;
+  language: string;
+  coverPage: boolean;
+  /** Largest email attachment in MB before a send is split, 0 for none. */
+  sizeLimit: number;
+  compressImages: boolean;
+  grayscaleImages: boolean;
+  stampSent: boolean;
+  downloadRemoteImages: boolean;
+  /** Seconds to wait for one remote image. */
+  remoteImageTimeout: number;
+  /** Largest remote image in MB. */
+  remoteImageMaxSize: number;
+  /** Domains, one per line; empty allows all but the denied ones. */
+  remoteImageAllow: string;
+  remoteImageDeny: string;
+  pageProfile: PageProfileId;
+  customPageWidth: number;
+  customPageHeight: number;
+  pageMargin: number;
   fontSize: number;
   pageBreakOnHr: boolean;
+  tableOfContents: boolean;
+  tocDepth: number;
+  canvasLayout: CanvasLayout;
+  theme: ThemeId;
+  fontFamily: string;
+  lineHeight: number;
+  customCssPath: string;
+  customCssMode: CustomCssMode;
+  codeTheme: CodeTheme;
+  codeWrap: boolean;
+  codeLineNumbers: boolean;
+  exportFolder: string;
+  exportPath: string;
+  overwritePolicy: OverwritePolicy;
+  batchOrder: BatchOrder;
+  batchManualOrder: string;
+  autoSend: boolean;
+  autoSendTag: string;
+  autoSendProfile: string;
+  markerAction: MarkerAction;
+  sentTag: string;
+  digestSchedule: DigestSchedule;
+  digestTag: string;
+  digestTime: string;
+  digestDay: number;
   ribbonIcon: boolean;
 }
 
 export const DEFAULT_SETTINGS: KindlePdfSettings = {
   author: "",
-  senderEmail: "",
-  kindleEmail: "",
-  smtpHost: "",
-  smtpPort: "587",
-  smtpUser: "",
-  smtpPass: "",
-  fontSize: 14,
+  profiles: [],
+  outputFormat: "pdf",
+  language: "en",
+  coverPage: false,
+  sizeLimit: 25,
+  compressImages: true,
+  grayscaleImages: true,
+  stampSent: false,
+  downloadRemoteImages: false,
+  remoteImageTimeout: 15,
+  remoteImageMaxSize: 10,
+  remoteImageAllow: "",
+  remoteImageDeny: "",
+  pageProfile: "letter",
+  customPageWidth: 100,
+  customPageHeight: 140,
+  pageMargin: 0,
+  fontSize: 0,
   pageBreakOnHr: false,
+  tableOfContents: false,
+  tocDepth: 3,
+  canvasLayout: "fit",
+  theme: "classic",
+  fontFamily: "",
+  lineHeight: 0,
+  customCssPath: "",
+  customCssMode: "append",
+  codeTheme: "grayscale",
+  codeWrap: true,
+  codeLineNumbers: false,
+  exportFolder: "Kindle exports",
+  exportPath: "",
+  overwritePolicy: "version",
+  batchOrder: "filename",
+  batchManualOrder: "",
+  autoSend: false,
+  autoSendTag: "to-kindle",
+  autoSendProfile: "",
+  markerAction: "remove",
+  sentTag: "sent-to-kindle",
+  digestSchedule: "off",
+  digestTag: "kindle-digest",
+  digestTime: "07:00",
+  digestDay: 1,
   ribbonIcon: true,
 };
 
+const SECRETS: ProfileSecret[] = ["password", "client-secret", "refresh-token"];
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
 export class KindlePdfSettingTab extends PluginSettingTab {
   plugin: KindlePdfPlugin;
+  /** Id of the delivery profile being edited. */
+  private selectedProfile = "";
 
   constructor(app: App, plugin: KindlePdfPlugin) {
     super(app, plugin);
@@ -41,12 +163,63 @@ export class KindlePdfSettingTab extends PluginSettingTab {
 
     containerEl.createEl("h1", { text: "Kindle PDF settings" });
 
-    // --- Email section ---
-    containerEl.createEl("h3", { text: "Email" });
+    // --- Delivery profiles section ---
+    containerEl.createEl("h3", { text: "Delivery profiles" });
+
+    const { profiles } = this.plugin.settings;
+    const profile =
+      profiles.find((p) => p.id === this.selectedProfile) || profiles[0];
+
+    new Setting(containerEl)
+      .setName("Profile")
+      .setDesc(
+        'Each profile has its own recipients, SMTP account and output. A note can pick one with a "kindle" frontmatter key.'
+      )
+      .addDropdown((dropdown) => {
+        for (const p of profiles) dropdown.addOption(p.id, p.name);
+        dropdown.setValue(profile?.id ?? "").onChange((value) => {
+          this.selectedProfile = value;
+          this.display();
+        });
+      })
+      .addButton((button) =>
+        button.setButtonText("Add").onClick(async () => {
+          const added = createProfile(`Profile ${profiles.length + 1}`);
+          profiles.push(added);
+          this.selectedProfile = added.id;
+          await this.plugin.saveSettings();
+          this.plugin.registerProfileCommands();
+          this.display();
+        })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Delete")
+          .setWarning()
+          .setDisabled(profiles.length <= 1)
+          .onClick(async () => {
+            profiles.remove(profile);
+            for (const secret of SECRETS) {
+              this.plugin.credentials.remove(secretId(profile, secret));
+            }
+            this.selectedProfile = "";
+            await this.plugin.saveSettings();
+            this.plugin.registerProfileCommands();
+            this.display();
+          })
+      );
+
+    if (profile) this.displayProfile(containerEl, profile);
+
+    // --- Output section ---
+    containerEl.createEl("hr");
+    containerEl.createEl("h3", { text: "Output" });
 
     new Setting(containerEl)
       .setName("Author")
-      .setDesc("Author name included in the email")
+      .setDesc(
+        "Author name stored in PDF and EPUB metadata, unless a note's author frontmatter says otherwise"
+      )
       .addText((text) =>
         text
           .setPlaceholder("Your Name")
@@ -58,97 +231,239 @@ export class KindlePdfSettingTab extends PluginSettingTab {
       );
 
     new Setting(containerEl)
-      .setName("Sender email")
-      .setDesc("The email address used to send (must be approved by Amazon)")
+      .setName("Output format")
+      .setDesc("PDF keeps the page layout; EPUB reflows text on the Kindle")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("pdf", "PDF")
+          .addOption("epub", "EPUB")
+          .setValue(this.plugin.settings.outputFormat)
+          .onChange(async (value) => {
+            this.plugin.settings.outputFormat = value as OutputFormat;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Language")
+      .setDesc("Language code stored in EPUB metadata (e.g. en, de, pt-BR)")
       .addText((text) =>
         text
-          .setPlaceholder("you@gmail.com")
-          .setValue(this.plugin.settings.senderEmail)
+          .setPlaceholder("en")
+          .setValue(this.plugin.settings.language)
           .onChange(async (value) => {
-            this.plugin.settings.senderEmail = value;
+            this.plugin.settings.language = value.trim();
             await this.plugin.saveSettings();
           })
       );
 
     new Setting(containerEl)
-      .setName("Kindle email")
-      .setDesc("Your Kindle device email address")
+      .setName("Cover page")
+      .setDesc(
+        "Start documents with a page showing the title, author, date and the note's cover image"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.coverPage)
+          .onChange(async (value) => {
+            this.plugin.settings.coverPage = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Size limit")
+      .setDesc(
+        "Largest email in MB, including the attachment's base64 encoding. Bigger documents are sent in parts. Kindle accepts up to 50 MB, many mail servers 25 MB. 0 for no limit."
+      )
       .addText((text) =>
         text
-          .setPlaceholder("you@kindle.com")
-          .setValue(this.plugin.settings.kindleEmail)
+          .setPlaceholder("25")
+          .setValue(String(this.plugin.settings.sizeLimit))
+          .onChange(async (value) => {
+            const limit = parseFloat(value);
+            if (!(limit >= 0)) return;
+            this.plugin.settings.sizeLimit = limit;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Compress images")
+      .setDesc(
+        "Downscale images to the device resolution and recompress them as JPEG when that makes them smaller"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.compressImages)
           .onChange(async (value) => {
-            this.plugin.settings.kindleEmail = value;
+            this.plugin.settings.compressImages = value;
             await this.plugin.saveSettings();
           })
       );
 
-    // --- SMTP section ---
+    new Setting(containerEl)
+      .setName("Grayscale images")
+      .setDesc("Convert compressed images to grayscale for e-ink screens")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.grayscaleImages)
+          .onChange(async (value) => {
+            this.plugin.settings.grayscaleImages = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Stamp sent date")
+      .setDesc("Add kindle-sent: <date> to the frontmatter of sent notes")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.stampSent)
+          .onChange(async (value) => {
+            this.plugin.settings.stampSent = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // --- Remote images section ---
     containerEl.createEl("hr");
-    containerEl.createEl("h3", { text: "SMTP" });
+    containerEl.createEl("h3", { text: "Remote images" });
 
     new Setting(containerEl)
-      .setName("SMTP host")
-      .setDesc("Your SMTP server (e.g. smtp.gmail.com)")
+      .setName("Download remote images")
+      .setDesc(
+        "Download web images when exporting and embed them, so documents read offline. Images that fail to download are replaced with a placeholder."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.downloadRemoteImages)
+          .onChange(async (value) => {
+            this.plugin.settings.downloadRemoteImages = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Timeout")
+      .setDesc("Seconds to wait for each image")
       .addText((text) =>
         text
-          .setPlaceholder("smtp.gmail.com")
-          .setValue(this.plugin.settings.smtpHost)
+          .setPlaceholder("15")
+          .setValue(String(this.plugin.settings.remoteImageTimeout))
           .onChange(async (value) => {
-            this.plugin.settings.smtpHost = value;
+            const seconds = parseFloat(value);
+            if (!(seconds > 0)) return;
+            this.plugin.settings.remoteImageTimeout = seconds;
             await this.plugin.saveSettings();
           })
       );
 
     new Setting(containerEl)
-      .setName("SMTP port")
-      .setDesc("SMTP port (typically 587 for TLS or 465 for SSL)")
+      .setName("Largest image")
+      .setDesc("In MB; bigger images are not downloaded")
       .addText((text) =>
         text
-          .setPlaceholder("587")
-          .setValue(this.plugin.settings.smtpPort)
+          .setPlaceholder("10")
+          .setValue(String(this.plugin.settings.remoteImageMaxSize))
           .onChange(async (value) => {
-            this.plugin.settings.smtpPort = value;
+            const size = parseFloat(value);
+            if (!(size > 0)) return;
+            this.plugin.settings.remoteImageMaxSize = size;
             await this.plugin.saveSettings();
           })
       );
 
     new Setting(containerEl)
-      .setName("SMTP user")
-      .setDesc("Username for SMTP authentication (usually your email)")
-      .addText((text) =>
+      .setName("Allowed domains")
+      .setDesc(
+        "Only download from these domains and their subdomains, one per line. Leave empty to allow all."
+      )
+      .addTextArea((text) =>
         text
-          .setPlaceholder("you@gmail.com")
-          .setValue(this.plugin.settings.smtpUser)
+          .setPlaceholder("example.com\nimages.example.org")
+          .setValue(this.plugin.settings.remoteImageAllow)
           .onChange(async (value) => {
-            this.plugin.settings.smtpUser = value;
+            this.plugin.settings.remoteImageAllow = value;
             await this.plugin.saveSettings();
           })
       );
 
     new Setting(containerEl)
-      .setName("SMTP password")
-      .setDesc("Password or app-specific password for SMTP")
-      .addText((text) => {
-        text.inputEl.type = "password";
+      .setName("Blocked domains")
+      .setDesc(
+        "Never download from these domains, one per line. Their images stay links."
+      )
+      .addTextArea((text) =>
         text
-          .setPlaceholder("********")
-          .setValue(this.plugin.settings.smtpPass)
+          .setPlaceholder("tracker.example.com")
+          .setValue(this.plugin.settings.remoteImageDeny)
           .onChange(async (value) => {
-            this.plugin.settings.smtpPass = value;
+            this.plugin.settings.remoteImageDeny = value;
             await this.plugin.saveSettings();
-          });
-      });
+          })
+      );
 
     // --- PDF section ---
     containerEl.createEl("hr");
     containerEl.createEl("h3", { text: "PDF" });
 
+    new Setting(containerEl)
+      .setName("Page profile")
+      .setDesc("Page size, margins and default font size for the target device")
+      .addDropdown((dropdown) => {
+        for (const [id, profile] of Object.entries(PAGE_PROFILES)) {
+          dropdown.addOption(id, profile.name);
+        }
+        dropdown
+          .addOption("custom", "Custom")
+          .setValue(this.plugin.settings.pageProfile)
+          .onChange(async (value) => {
+            this.plugin.settings.pageProfile = value as PageProfileId;
+            await this.plugin.saveSettings();
+            // Show or hide the custom size fields
+            this.display();
+          });
+      });
+
+    if (this.plugin.settings.pageProfile === "custom") {
+      new Setting(containerEl)
+        .setName("Page width")
+        .setDesc("Custom page width (in mm)")
+        .addText((text) =>
+          text
+            .setPlaceholder("100")
+            .setValue(String(this.plugin.settings.customPageWidth))
+            .onChange(async (value) => {
+              const width = parseFloat(value);
+              if (!(width > 0)) return;
+              this.plugin.settings.customPageWidth = width;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Page height")
+        .setDesc("Custom page height (in mm)")
+        .addText((text) =>
+          text
+            .setPlaceholder("140")
+            .setValue(String(this.plugin.settings.customPageHeight))
+            .onChange(async (value) => {
+              const height = parseFloat(value);
+              if (!(height > 0)) return;
+              this.plugin.settings.customPageHeight = height;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
     new Setting(containerEl)
       .setName("Font size")
       .setDesc("Base font size for the PDF (in px)")
       .addDropdown((dropdown) =>
         dropdown
+          .addOption("0", "Profile default")
           .addOption("12", "12px")
           .addOption("14", "14px")
           .addOption("16", "16px")
@@ -159,6 +474,24 @@ export class KindlePdfSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Page margin")
+      .setDesc("Page margin in mm. Leave empty to use the profile's margin.")
+      .addText((text) =>
+        text
+          .setPlaceholder("Profile default")
+          .setValue(
+            this.plugin.settings.pageMargin
+              ? String(this.plugin.settings.pageMargin)
+              : ""
+          )
+          .onChange(async (value) => {
+            const margin = parseFloat(value);
+            this.plugin.settings.pageMargin = margin > 0 ? margin : 0;
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl)
       .setName("Page break on ---")
       .setDesc("Insert a page break when a horizontal rule (---) is encountered")
@@ -171,6 +504,405 @@ export class KindlePdfSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Table of contents")
+      .setDesc(
+        "Add a linked contents page after the title and a PDF outline for the Kindle \"Go To\" menu"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.tableOfContents)
+          .onChange(async (value) => {
+            this.plugin.settings.tableOfContents = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Contents depth")
+      .setDesc("Deepest heading level listed on the contents page")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("1", "H1")
+          .addOption("2", "H1–H2")
+          .addOption("3", "H1–H3")
+          .setValue(String(this.plugin.settings.tocDepth))
+          .onChange(async (value) => {
+            this.plugin.settings.tocDepth = parseInt(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Canvas layout")
+      .setDesc(
+        "How a canvas bigger than the page is printed: scaled down to one page, or at full size across several pages"
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("fit", "Fit to page")
+          .addOption("tile", "Tile across pages")
+          .setValue(this.plugin.settings.canvasLayout)
+          .onChange(async (value) => {
+            this.plugin.settings.canvasLayout = value as CanvasLayout;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // --- Theme section ---
+    containerEl.createEl("hr");
+    containerEl.createEl("h3", { text: "Theme" });
+
+    new Setting(containerEl)
+      .setName("Theme")
+      .setDesc(
+        'Look of the document. A note can pick its own with a "kindle-theme" frontmatter key.'
+      )
+      .addDropdown((dropdown) => {
+        for (const [id, theme] of Object.entries(THEMES)) {
+          dropdown.addOption(id, theme.name);
+        }
+        dropdown
+          .setValue(this.plugin.settings.theme)
+          .onChange(async (value) => {
+            this.plugin.settings.theme = value as ThemeId;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName("Font family")
+      .setDesc("CSS font family. Leave empty to use the theme's font.")
+      .addText((text) =>
+        text
+          .setPlaceholder("Theme default")
+          .setValue(this.plugin.settings.fontFamily)
+          .onChange(async (value) => {
+            this.plugin.settings.fontFamily = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Line height")
+      .setDesc(
+        "Line height as a multiple of the font size. Leave empty to use the theme's."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Theme default")
+          .setValue(
+            this.plugin.settings.lineHeight
+              ? String(this.plugin.settings.lineHeight)
+              : ""
+          )
+          .onChange(async (value) => {
+            const lineHeight = parseFloat(value);
+            this.plugin.settings.lineHeight = lineHeight > 0 ? lineHeight : 0;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Custom stylesheet")
+      .setDesc(
+        "Path of a CSS file in the vault, e.g. .obsidian/snippets/kindle.css"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("kindle.css")
+          .setValue(this.plugin.settings.customCssPath)
+          .onChange(async (value) => {
+            this.plugin.settings.customCssPath = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Custom stylesheet mode")
+      .setDesc(
+        "Add the custom CSS to the theme, or use it instead of the theme"
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("append", "Append to theme")
+          .addOption("replace", "Replace theme")
+          .setValue(this.plugin.settings.customCssMode)
+          .onChange(async (value) => {
+            this.plugin.settings.customCssMode = value as CustomCssMode;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // --- Code section ---
+    containerEl.createEl("hr");
+    containerEl.createEl("h3", { text: "Code blocks" });
+
+    new Setting(containerEl)
+      .setName("Highlighting theme")
+      .setDesc(
+        "Syntax highlighting for fenced code, using font styles that read well on e-ink"
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("grayscale", "Grayscale")
+          .addOption("e-ink", "E-ink (black only)")
+          .addOption("none", "None")
+          .setValue(this.plugin.settings.codeTheme)
+          .onChange(async (value) => {
+            this.plugin.settings.codeTheme = value as CodeTheme;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Wrap long lines")
+      .setDesc(
+        "Wrap lines that don't fit the page, marking continuations with ↪"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.codeWrap)
+          .onChange(async (value) => {
+            this.plugin.settings.codeWrap = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Line numbers")
+      .setDesc("Number the lines of fenced code blocks")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.codeLineNumbers)
+          .onChange(async (value) => {
+            this.plugin.settings.codeLineNumbers = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // --- Local export section ---
+    containerEl.createEl("hr");
+    containerEl.createEl("h3", { text: "Local export" });
+
+    new Setting(containerEl)
+      .setName("Vault folder")
+      .setDesc('Folder in this vault used by "Export to vault folder"')
+      .addText((text) =>
+        text
+          .setPlaceholder("Kindle exports")
+          .setValue(this.plugin.settings.exportFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.exportFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Export directory")
+      .setDesc('Directory on disk used by "Export to file…"')
+      .addText((text) =>
+        text
+          .setPlaceholder("~/Documents/Kindle")
+          .setValue(this.plugin.settings.exportPath)
+          .onChange(async (value) => {
+            this.plugin.settings.exportPath = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Existing files")
+      .setDesc("What to do when an export with the same name already exists")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("version", "Keep both (add a number)")
+          .addOption("overwrite", "Overwrite")
+          .setValue(this.plugin.settings.overwritePolicy)
+          .onChange(async (value) => {
+            this.plugin.settings.overwritePolicy = value as OverwritePolicy;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // --- Batch section ---
+    containerEl.createEl("hr");
+    containerEl.createEl("h3", { text: "Batch" });
+
+    new Setting(containerEl)
+      .setName("Chapter order")
+      .setDesc(
+        "How notes are ordered when a folder or tag is sent as one book"
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("filename", "By filename")
+          .addOption("frontmatter", "By frontmatter \"order\"")
+          .addOption("manual", "Manual list")
+          .setValue(this.plugin.settings.batchOrder)
+          .onChange(async (value) => {
+            this.plugin.settings.batchOrder = value as BatchOrder;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Manual order")
+      .setDesc(
+        "One note name or path per line. Notes not listed follow in filename order."
+      )
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("Introduction\nChapter 1\nChapter 2")
+          .setValue(this.plugin.settings.batchManualOrder)
+          .onChange(async (value) => {
+            this.plugin.settings.batchManualOrder = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // --- Automatic sending section ---
+    containerEl.createEl("hr");
+    containerEl.createEl("h3", { text: "Automatic sending" });
+
+    new Setting(containerEl)
+      .setName("Auto-send")
+      .setDesc(
+        "Send a note in the background as soon as it gets the auto-send tag or send-to-kindle: true"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.autoSend)
+          .onChange(async (value) => {
+            this.plugin.settings.autoSend = value;
+            await this.plugin.saveSettings();
+            if (value) this.plugin.autoSender.scan();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Auto-send tag")
+      .setDesc(
+        "Notes with this tag are sent. Leave empty to use only the property."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("to-kindle")
+          .setValue(this.plugin.settings.autoSendTag)
+          .onChange(async (value) => {
+            this.plugin.settings.autoSendTag = value.trim().replace(/^#/, "");
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Profile")
+      .setDesc(
+        "Delivery profile for automatic sends and digests. A note's kindle frontmatter profile takes precedence."
+      )
+      .addDropdown((dropdown) => {
+        dropdown.addOption("", "First profile");
+        for (const profile of this.plugin.settings.profiles) {
+          dropdown.addOption(profile.id, profile.name);
+        }
+        dropdown
+          .setValue(this.plugin.settings.autoSendProfile)
+          .onChange(async (value) => {
+            this.plugin.settings.autoSendProfile = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName("After sending")
+      .setDesc("What happens to the tag or property once a note is sent")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("remove", "Remove it")
+          .addOption("rewrite", "Replace with the sent tag")
+          .setValue(this.plugin.settings.markerAction)
+          .onChange(async (value) => {
+            this.plugin.settings.markerAction = value as MarkerAction;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Sent tag")
+      .setDesc(
+        "Replaces the auto-send or digest tag after sending. The send-to-kindle property is set to false."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("sent-to-kindle")
+          .setValue(this.plugin.settings.sentTag)
+          .onChange(async (value) => {
+            this.plugin.settings.sentTag = value.trim().replace(/^#/, "");
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Digest")
+      .setDesc(
+        "Bundle the notes with the digest tag into one book on a schedule"
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("off", "Off")
+          .addOption("daily", "Daily")
+          .addOption("weekly", "Weekly")
+          .setValue(this.plugin.settings.digestSchedule)
+          .onChange(async (value) => {
+            this.plugin.settings.digestSchedule = value as DigestSchedule;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.digestSchedule !== "off") {
+      new Setting(containerEl)
+        .setName("Digest tag")
+        .setDesc("Notes with this tag go into the next digest")
+        .addText((text) =>
+          text
+            .setPlaceholder("kindle-digest")
+            .setValue(this.plugin.settings.digestTag)
+            .onChange(async (value) => {
+              this.plugin.settings.digestTag = value.trim().replace(/^#/, "");
+              await this.plugin.saveSettings();
+            })
+        );
+
+      if (this.plugin.settings.digestSchedule === "weekly") {
+        new Setting(containerEl)
+          .setName("Digest day")
+          .addDropdown((dropdown) => {
+            WEEKDAYS.forEach((day, i) => dropdown.addOption(String(i), day));
+            dropdown
+              .setValue(String(this.plugin.settings.digestDay))
+              .onChange(async (value) => {
+                this.plugin.settings.digestDay = parseInt(value);
+                await this.plugin.saveSettings();
+              });
+          });
+      }
+
+      new Setting(containerEl)
+        .setName("Digest time")
+        .setDesc("24-hour time (HH:MM) at which the digest is sent")
+        .addText((text) =>
+          text
+            .setPlaceholder("07:00")
+            .setValue(this.plugin.settings.digestTime)
+            .onChange(async (value) => {
+              if (!/^([01]?\d|2[0-3]):[0-5]\d$/.test(value.trim())) return;
+              this.plugin.settings.digestTime = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
     // --- UI section ---
     containerEl.createEl("hr");
     containerEl.createEl("h3", { text: "UI" });
@@ -193,4 +925,351 @@ export class KindlePdfSettingTab extends PluginSettingTab {
           })
       );
   }
+
+  /** The email, SMTP and output settings of one delivery profile. */
+  private displayProfile(containerEl: HTMLElement, profile: DeliveryProfile) {
+    // Rename the command once typing pauses, not on every key
+    const renameCommand = debounce(
+      () => this.plugin.registerProfileCommands(),
+      500,
+      true
+    );
+    new Setting(containerEl)
+      .setName("Name")
+      .setDesc("Shown in the profile picker and the profile's command")
+      .addText((text) =>
+        text.setValue(profile.name).onChange(async (value) => {
+          profile.name = value.trim() || "Untitled";
+          await this.plugin.saveSettings();
+          renameCommand();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Kindle emails")
+      .setDesc("Kindle device email addresses, one per line")
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("you@kindle.com")
+          .setValue(profile.recipients.join("\n"))
+          .onChange(async (value) => {
+            profile.recipients = parseRecipients(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Sender email")
+      .setDesc("The email address used to send (must be approved by Amazon)")
+      .addText((text) =>
+        text
+          .setPlaceholder("you@gmail.com")
+          .setValue(profile.senderEmail)
+          .onChange(async (value) => {
+            profile.senderEmail = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Output format")
+      .setDesc("Format sent with this profile")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("", "Same as Output settings")
+          .addOption("pdf", "PDF")
+          .addOption("epub", "EPUB")
+          .setValue(profile.outputFormat)
+          .onChange(async (value) => {
+            profile.outputFormat = value as OutputFormat | "";
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Page profile")
+      .setDesc("Target device for PDFs sent with this profile")
+      .addDropdown((dropdown) => {
+        dropdown.addOption("", "Same as PDF settings");
+        for (const [id, page] of Object.entries(PAGE_PROFILES)) {
+          dropdown.addOption(id, page.name);
+        }
+        dropdown
+          .addOption("custom", "Custom")
+          .setValue(profile.pageProfile)
+          .onChange(async (value) => {
+            profile.pageProfile = value as PageProfileId | "";
+            await this.plugin.saveSettings();
+          });
+      });
+
+    containerEl.createEl("h4", { text: "SMTP" });
+
+    let presetDropdown: DropdownComponent;
+    // Editing the server by hand leaves the preset
+    const editServer = async (apply: () => void) => {
+      apply();
+      profile.smtpPreset = "custom";
+      presetDropdown.setValue("custom");
+      await this.plugin.saveSettings();
+    };
+
+    new Setting(containerEl)
+      .setName("Provider")
+      .setDesc("Fill in the server, port and TLS mode for a mail provider")
+      .addDropdown((dropdown) => {
+        presetDropdown = dropdown;
+        for (const [id, preset] of Object.entries(SMTP_PRESETS)) {
+          dropdown.addOption(id, preset.name);
+        }
+        dropdown
+          .addOption("custom", "Custom")
+          .setValue(profile.smtpPreset)
+          .onChange(async (value) => {
+            profile.smtpPreset = value as SmtpPresetId;
+            if (value !== "custom") {
+              const preset = SMTP_PRESETS[value as keyof typeof SMTP_PRESETS];
+              profile.smtpHost = preset.host;
+              profile.smtpPort = preset.port;
+              profile.smtpSecurity = preset.security;
+              profile.oauthTokenUrl = preset.tokenUrl;
+              if (!preset.tokenUrl) profile.smtpAuth = "password";
+            }
+            await this.plugin.saveSettings();
+            this.display();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName("SMTP host")
+      .setDesc("Your SMTP server (e.g. smtp.gmail.com)")
+      .addText((text) =>
+        text
+          .setPlaceholder("smtp.gmail.com")
+          .setValue(profile.smtpHost)
+          .onChange((value) => editServer(() => (profile.smtpHost = value)))
+      );
+
+    new Setting(containerEl)
+      .setName("SMTP port")
+      .setDesc("SMTP port (typically 587 for STARTTLS or 465 for SSL)")
+      .addText((text) =>
+        text
+          .setPlaceholder("587")
+          .setValue(profile.smtpPort)
+          .onChange((value) => editServer(() => (profile.smtpPort = value)))
+      );
+
+    new Setting(containerEl)
+      .setName("Security")
+      .setDesc("How the connection to the SMTP server is encrypted")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("starttls", "STARTTLS")
+          .addOption("ssl", "SSL/TLS")
+          .addOption("none", "None (unencrypted)")
+          .setValue(profile.smtpSecurity)
+          .onChange((value) =>
+            editServer(() => (profile.smtpSecurity = value as SmtpSecurity))
+          )
+      );
+
+    if (supportsOAuth2(profile)) {
+      new Setting(containerEl)
+        .setName("Authentication")
+        .setDesc(
+          "A password, or OAuth2 (XOAUTH2) with a refresh token you got from your provider. There is no sign-in flow here."
+        )
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption("password", "Password")
+            .addOption("oauth2", "OAuth2")
+            .setValue(profile.smtpAuth)
+            .onChange(async (value) => {
+              profile.smtpAuth = value as SmtpAuth;
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("SMTP user")
+      .setDesc("Username for SMTP authentication (usually your email)")
+      .addText((text) =>
+        text
+          .setPlaceholder("you@gmail.com")
+          .setValue(profile.smtpUser)
+          .onChange(async (value) => {
+            profile.smtpUser = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    if (profile.smtpAuth === "oauth2" && supportsOAuth2(profile)) {
+      new Setting(containerEl)
+        .setName("OAuth2 client ID")
+        .setDesc("Client ID of the app registered with your mail provider")
+        .addText((text) =>
+          text.setValue(profile.oauthClientId).onChange(async (value) => {
+            profile.oauthClientId = value.trim();
+            await this.plugin.saveSettings();
+          })
+        );
+
+      this.addSecretSetting(
+        containerEl,
+        profile,
+        "client-secret",
+        "OAuth2 client secret",
+        "Client secret of the registered app, saved when you leave the field"
+      );
+
+      this.addSecretSetting(
+        containerEl,
+        profile,
+        "refresh-token",
+        "OAuth2 refresh token",
+        "Used to get new access tokens as they expire, saved when you leave the field"
+      );
+
+      new Setting(containerEl)
+        .setName("OAuth2 token URL")
+        .setDesc("Token endpoint of your provider")
+        .addText((text) =>
+          text
+            .setPlaceholder("https://oauth2.googleapis.com/token")
+            .setValue(profile.oauthTokenUrl)
+            .onChange(async (value) => {
+              profile.oauthTokenUrl = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    } else {
+      this.addSecretSetting(
+        containerEl,
+        profile,
+        "password",
+        "SMTP password",
+        "Password or app-specific password for SMTP, saved when you leave the field"
+      );
+    }
+
+    const testSetting = new Setting(containerEl)
+      .setName("Test connection")
+      .setDesc(
+        "Connect and sign in to the SMTP server without sending anything"
+      );
+    testSetting.addButton((button) =>
+      button.setButtonText("Test").onClick(() =>
+        this.runCheck(testSetting, button, async () => {
+          if (!this.plugin.smtpConfigured(profile)) {
+            throw new Error("Fill in the SMTP settings first.");
+          }
+          await this.plugin.testConnection(profile);
+          return `Signed in to ${profile.smtpHost}.`;
+        })
+      )
+    );
+
+    const sendSetting = new Setting(containerEl)
+      .setName("Send test document")
+      .setDesc("Send a one-page PDF to this profile's Kindle emails");
+    sendSetting.addButton((button) =>
+      button.setButtonText("Send").onClick(() =>
+        this.runCheck(sendSetting, button, async () => {
+          if (
+            !profile.senderEmail ||
+            !profile.recipients.length ||
+            !this.plugin.smtpConfigured(profile)
+          ) {
+            throw new Error("Fill in the email and SMTP settings first.");
+          }
+          await this.plugin.sendTestDocument(profile);
+          return `Sent to ${profile.recipients.join(
+            ", "
+          )}. It can take a few minutes to arrive.`;
+        })
+      )
+    );
+
+    const { credentials } = this.plugin;
+
+    new Setting(containerEl)
+      .setName("Password storage")
+      .setDesc(credentials.describe())
+      .addButton((button) =>
+        button
+          .setButtonText("Clear credentials")
+          .setWarning()
+          .onClick(async () => {
+            credentials.clear();
+            for (const p of this.plugin.settings.profiles) delete p.smtpPass;
+            await this.plugin.saveSettings();
+            new Notice("Saved SMTP credentials cleared.");
+            this.display();
+          })
+      );
+  }
+
+  /**
+   * Run a connection check from a button and show the outcome, or the
+   * explained error, under the setting.
+   */
+  private async runCheck(
+    setting: Setting,
+    button: ButtonComponent,
+    check: () => Promise<string>
+  ) {
+    setting.descEl.querySelector(".kindle-pdf-check-result")?.remove();
+    const result = setting.descEl.createDiv("kindle-pdf-check-result");
+    result.setText("Working\u2026");
+    button.setDisabled(true);
+
+    try {
+      result.setText(await check());
+      result.addClass("is-success");
+    } catch (error) {
+      const { message, hint } = explainError(error);
+      result.setText(message);
+      result.addClass("is-error");
+      if (hint) result.createDiv({ text: hint, cls: "kindle-pdf-error-hint" });
+    } finally {
+      button.setDisabled(false);
+    }
+  }
+
+  /** A password field for one of a profile's secrets, stored encrypted. */
+  private addSecretSetting(
+    containerEl: HTMLElement,
+    profile: DeliveryProfile,
+    secret: ProfileSecret,
+    name: string,
+    desc: string
+  ) {
+    const { credentials } = this.plugin;
+    const id = secretId(profile, secret);
+
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText((text) => {
+        text.inputEl.type = "password";
+        text.setPlaceholder(credentials.has(id) ? "Saved" : "********");
+        // Encrypt the finished value, not every keystroke
+        text.inputEl.addEventListener("change", async () => {
+          const value = text.getValue();
+          if (!value) return;
+          try {
+            await credentials.set(id, value);
+            if (secret === "password") delete profile.smtpPass;
+            await this.plugin.saveSettings();
+            this.display();
+          } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            new Notice(`Could not save the ${name}: ${msg}`);
+          }
+        });
+      });
+  }
 }
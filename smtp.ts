@@ -0,0 +1,115 @@
+import * as SMTPTransport from "nodemailer/lib/smtp-transport";
+import { DeliveryProfile } from "./profiles";
+
+export type SmtpSecurity = "starttls" | "ssl" | "none";
+export type SmtpAuth = "password" | "oauth2";
+export type SmtpPresetId =
+  | "gmail"
+  | "outlook"
+  | "icloud"
+  | "fastmail"
+  | "custom";
+
+export interface SmtpPreset {
+  name: string;
+  host: string;
+  port: string;
+  security: SmtpSecurity;
+  /** OAuth2 token endpoint, for providers that support XOAUTH2. */
+  tokenUrl: string;
+}
+
+export const SMTP_PRESETS: Record<
+  Exclude<SmtpPresetId, "custom">,
+  SmtpPreset
+> = {
+  gmail: {
+    name: "Gmail",
+    host: "smtp.gmail.com",
+    port: "587",
+    security: "starttls",
+    tokenUrl: "https://oauth2.googleapis.com/token",
+  },
+  outlook: {
+    name: "Outlook / Office 365",
+    host: "smtp.office365.com",
+    port: "587",
+    security: "starttls",
+    tokenUrl: "https://login.microsoftonline.com/common/oauth2/v2.0/token",
+  },
+  icloud: {
+    name: "iCloud Mail",
+    host: "smtp.mail.me.com",
+    port: "587",
+    security: "starttls",
+    tokenUrl: "",
+  },
+  fastmail: {
+    name: "Fastmail",
+    host: "smtp.fastmail.com",
+    port: "465",
+    security: "ssl",
+    tokenUrl: "",
+  },
+};
+
+/**
+ * Whether a profile's provider takes OAuth2. iCloud and Fastmail only
+ * take passwords; a custom server may take either.
+ */
+export function supportsOAuth2(profile: DeliveryProfile): boolean {
+  return (
+    profile.smtpPreset === "custom" ||
+    !!SMTP_PRESETS[profile.smtpPreset]?.tokenUrl
+  );
+}
+
+/** Secrets for a profile, read from the credential store. */
+export interface SmtpSecrets {
+  password: string;
+  clientSecret: string;
+  refreshToken: string;
+}
+
+/** An OAuth2 access token still valid for later sends. */
+export interface AccessToken {
+  accessToken: string;
+  expires: number;
+}
+
+/**
+ * Nodemailer transport options for a profile. STARTTLS is required
+ * rather than merely attempted, so a server that doesn't offer it fails
+ * instead of sending the password in the clear.
+ */
+export function transportOptions(
+  profile: DeliveryProfile,
+  secrets: SmtpSecrets,
+  token?: AccessToken
+): SMTPTransport.Options {
+  const security: SMTPTransport.Options = {
+    starttls: { secure: false, requireTLS: true },
+    ssl: { secure: true },
+    none: { secure: false, ignoreTLS: true },
+  }[profile.smtpSecurity];
+
+  const auth: SMTPTransport.Options["auth"] =
+    profile.smtpAuth === "oauth2"
+      ? {
+          type: "OAuth2",
+          user: profile.smtpUser,
+          clientId: profile.oauthClientId,
+          clientSecret: secrets.clientSecret,
+          refreshToken: secrets.refreshToken,
+          accessUrl: profile.oauthTokenUrl,
+          ...token,
+        }
+      : { user: profile.smtpUser, pass: secrets.password };
+
+  return {
+    host: profile.smtpHost,
+    port: parseInt(profile.smtpPort),
+    ...security,
+    auth,
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Split an HTML document into `count` documents of about the same size,
+ * cutting only between top-level elements of the body. Every part keeps
+ * the original head. Returns fewer parts when the body has fewer
+ * elements to cut between.
+ */
+export function splitHtml(html: string, count: number): string[] {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const blocks = Array.from(doc.body.children).map((el) => el.outerHTML);
+  const total = blocks.reduce((sum, block) => sum + block.length, 0);
+  const target = total / Math.min(count, blocks.length);
+
+  const groups: string[][] = [[]];
+  let size = 0;
+  for (const block of blocks) {
+    const group = groups[groups.length - 1];
+    // Start a new part once this one has its share, but never empty
+    if (group.length && size + block.length / 2 > target) {
+      groups.push([block]);
+      size = block.length;
+    } else {
+      group.push(block);
+      size += block.length;
+    }
+  }
+
+  const head = doc.head.outerHTML;
+  return groups.map(
+    (group) => `<!DOCTYPE html>
+<html>
+${head}
+<body>
+${group.join("\n")}
+</body>
+</html>`
+  );
+}
+
+/** Put `markup` at the start of the body of a part from splitHtml. */
+export function prependToBody(html: string, markup: string): string {
+  return html.replace("<body>\n", `<body>\n${markup}`);
+}
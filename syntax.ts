@@ -0,0 +1,404 @@
+import { MarkedExtension, Renderer, Tokens } from "marked";
+import { FENCE_RE, escapeHtml } from "./markup";
+import { HeadingIds, slugify } from "./toc";
+
+// ── Note Anchors ──────────────────────────────────────────────────
+
+const NOTE_ANCHOR_RE = /<div id="(note-[^"]*)"><\/div>/g;
+
+function noteAnchorId(name: string): string {
+  return `note-${slugify(name)}`;
+}
+
+/**
+ * Marker placed where a note's content starts (embeds, book chapters),
+ * so wikilinks to that note can jump there.
+ */
+export function noteAnchor(name: string): string {
+  return `<div id="${noteAnchorId(name)}"></div>`;
+}
+
+// ── Footnotes ─────────────────────────────────────────────────────
+
+interface Footnote {
+  text: string;
+  number?: number;
+  refs: number;
+}
+
+interface FootnoteDefinition {
+  label: string;
+  line: number;
+  key: string;
+}
+
+const FOOTNOTE_DEF_RE = /^\[\^([^\]\s]+)\]:[ \t]?(.*)$/;
+const FOOTNOTE_REF_RE = /\[\^([^\]\s]+)\](?!:)/g;
+
+/**
+ * Prefix the footnote labels of one note so that "[^1]" in an embedded
+ * note doesn't collide with "[^1]" in the note embedding it.
+ */
+export function scopeFootnotes(markdown: string, scope: string): string {
+  const prefix = slugify(scope);
+  let inFence = false;
+  return markdown
+    .split("\n")
+    .map((line) => {
+      if (FENCE_RE.test(line)) inFence = !inFence;
+      if (inFence) return line;
+      return line.replace(
+        /\[\^([^\]\s]+)\]/g,
+        (_ref, label: string) => `[^${prefix}:${label}]`
+      );
+    })
+    .join("\n");
+}
+
+/**
+ * Obsidian-flavored markdown for one document: callouts, wikilinks,
+ * footnotes, task lists, highlights and comments. Create one per
+ * render — it keeps the footnote numbering and the set of notes
+ * present in the document.
+ */
+export class ObsidianSyntax {
+  private anchors = new Set<string>();
+  // Links to headings of the note, until their ids are known
+  private headingLinks = new Map<string, string>();
+  private footnotes = new Map<string, Footnote>();
+  private numbered: Footnote[] = [];
+  private inlineCount = 0;
+
+  /** `ids` are the heading ids of the document being rendered. */
+  constructor(private ids: HeadingIds) {}
+
+  /**
+   * Pull footnote definitions out of the text and note which notes are
+   * present in the document. Run on the markdown before parsing.
+   *
+   * A note embedded twice repeats its labels, so each reference is tied
+   * to the next definition of its label (or the last one, if none
+   * follows).
+   */
+  prepare(markdown: string): string {
+    // Keep only the first anchor for each note, ids must be unique
+    markdown = markdown.replace(NOTE_ANCHOR_RE, (match, id: string) => {
+      if (this.anchors.has(id)) return "";
+      this.anchors.add(id);
+      return match;
+    });
+
+    const lines = markdown.split("\n");
+    const kept: string[] = [];
+    const definitions: FootnoteDefinition[] = [];
+    let inFence = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      if (FENCE_RE.test(line)) inFence = !inFence;
+
+      const match = inFence ? null : line.match(FOOTNOTE_DEF_RE);
+      if (!match) {
+        kept.push(line);
+        continue;
+      }
+
+      // Indented lines (and blank lines between them) continue the note
+      const body = [match[2]];
+      while (
+        i + 1 < lines.length &&
+        (/^( {2,}|\t)/.test(lines[i + 1]) ||
+          (lines[i + 1].trim() === "" &&
+            /^( {2,}|\t)/.test(lines[i + 2] || "")))
+      ) {
+        body.push(lines[++i].replace(/^( {1,4}|\t)/, ""));
+      }
+
+      const key = `${match[1]}~${definitions.length}`;
+      definitions.push({ label: match[1], line: kept.length, key });
+      this.footnotes.set(key, { text: body.join("\n"), refs: 0 });
+    }
+
+    inFence = false;
+    return kept
+      .map((line, lineNo) => {
+        if (FENCE_RE.test(line)) inFence = !inFence;
+        if (inFence) return line;
+
+        return line.replace(FOOTNOTE_REF_RE, (ref, label: string) => {
+          const candidates = definitions.filter((d) => d.label === label);
+          if (!candidates.length) return ref;
+          const def =
+            candidates.find((d) => d.line >= lineNo) ||
+            candidates[candidates.length - 1];
+          return `[^${def.key}]`;
+        });
+      })
+      .join("\n");
+  }
+
+  extension(): MarkedExtension {
+    const syntax = this;
+
+    return {
+      extensions: [
+        {
+          name: "callout",
+          level: "block",
+          start(src: string) {
+            return src.match(/^ {0,3}> *\[!/m)?.index;
+          },
+          tokenizer(src: string) {
+            const match = src.match(
+              /^ {0,3}> *\[!([^\]\s][^\]]*)\]([+-]?)[ \t]*([^\n]*)\n?((?: {0,3}>[^\n]*(?:\n|$))*)/
+            );
+            if (!match) return undefined;
+
+            const body = match[4]
+              .split("\n")
+              .map((line) => line.replace(/^ {0,3}> ?/, ""))
+              .join("\n");
+            const kind = match[1].trim().toLowerCase();
+            const title =
+              match[3].trim() || kind[0].toUpperCase() + kind.slice(1);
+
+            const token: Tokens.Generic = {
+              type: "callout",
+              raw: match[0],
+              kind,
+              titleTokens: [],
+              tokens: this.lexer.blockTokens(body, []),
+            };
+            this.lexer.inline(title, token.titleTokens);
+            return token;
+          },
+          renderer(token: Tokens.Generic) {
+            const kind = escapeHtml(token.kind);
+            return `<div class="callout" data-callout="${kind}">
+<div class="callout-title">${this.parser.parseInline(token.titleTokens)}</div>
+<div class="callout-content">
+${this.parser.parse(token.tokens || [])}</div>
+</div>
+`;
+          },
+        },
+        {
+          name: "comment",
+          level: "block",
+          start(src: string) {
+            return src.match(/^ {0,3}%%/m)?.index;
+          },
+          tokenizer(src: string) {
+            // Only when nothing follows the closing %% on its line
+            const match = src.match(/^ {0,3}%%[\s\S]*?%%[ \t]*(?:\n+|$)/);
+            if (!match) return undefined;
+            return { type: "comment", raw: match[0] };
+          },
+          renderer() {
+            return "";
+          },
+        },
+        {
+          name: "inlineComment",
+          level: "inline",
+          start(src: string) {
+            return src.match(/%%/)?.index;
+          },
+          tokenizer(src: string) {
+            const match = src.match(/^%%[\s\S]*?%%/);
+            if (!match) return undefined;
+            return { type: "inlineComment", raw: match[0] };
+          },
+          renderer() {
+            return "";
+          },
+        },
+        {
+          name: "highlight",
+          level: "inline",
+          start(src: string) {
+            return src.match(/==/)?.index;
+          },
+          tokenizer(src: string) {
+            const match = src.match(/^==(?!=)([^\n]*?[^\s=])==(?!=)/);
+            if (!match) return undefined;
+            const token: Tokens.Generic = {
+              type: "highlight",
+              raw: match[0],
+              tokens: [],
+            };
+            this.lexer.inline(match[1], token.tokens);
+            return token;
+          },
+          renderer(token: Tokens.Generic) {
+            const html = this.parser.parseInline(token.tokens || []);
+            return `<mark>${html}</mark>`;
+          },
+        },
+        {
+          name: "wikilink",
+          level: "inline",
+          start(src: string) {
+            return src.match(/!?\[\[/)?.index;
+          },
+          tokenizer(src: string) {
+            const match = src.match(
+              /^(!?)\[\[([^\]|#^]*)([#^][^\]|]*)?(?:\|([^\]]*))?\]\]/
+            );
+            if (!match) return undefined;
+            return {
+              type: "wikilink",
+              raw: match[0],
+              embed: match[1] === "!",
+              // Wikilinks in tables escape the alias pipe as \|
+              target: match[2].replace(/\\$/, "").trim(),
+              subpath: (match[3] || "").replace(/^#/, ""),
+              alias: match[4]?.trim(),
+            };
+          },
+          renderer(token: Tokens.Generic) {
+            // Embeds still here couldn't be resolved, show them as written
+            if (token.embed) return escapeHtml(token.raw);
+            return syntax.renderWikilink(
+              token.target,
+              token.subpath,
+              token.alias
+            );
+          },
+        },
+        {
+          name: "footnoteRef",
+          level: "inline",
+          start(src: string) {
+            return src.match(/\[\^|\^\[/)?.index;
+          },
+          tokenizer(src: string) {
+            const ref = src.match(/^\[\^([^\]\s]+)\]/);
+            if (ref && syntax.footnotes.has(ref[1])) {
+              return { type: "footnoteRef", raw: ref[0], key: ref[1] };
+            }
+
+            // Inline footnote: ^[text]
+            const inline = src.match(/^\^\[((?:[^[\]]|\[[^\]]*\])*)\]/);
+            if (inline) {
+              const key = `inline~${syntax.inlineCount++}`;
+              syntax.footnotes.set(key, { text: inline[1], refs: 0 });
+              return { type: "footnoteRef", raw: inline[0], key };
+            }
+            return undefined;
+          },
+          renderer(token: Tokens.Generic) {
+            return syntax.renderFootnoteRef(token.key);
+          },
+        },
+      ],
+      renderer: {
+        checkbox({ checked }) {
+          return `<span class="task-checkbox">${checked ? "☑" : "☐"}</span>`;
+        },
+        listitem(item) {
+          if (!item.task) return false;
+          const html = Renderer.prototype.listitem.call(this, item);
+          return html.replace(/^<li>/, '<li class="task-list-item">');
+        },
+      },
+    };
+  }
+
+  private renderWikilink(
+    target: string,
+    subpath: string,
+    alias?: string
+  ): string {
+    const heading = subpath.startsWith("^") ? "" : subpath;
+    let text = alias;
+    if (!text) {
+      if (!target) text = heading || subpath;
+      else text = heading ? `${target} > ${heading}` : target;
+    }
+
+    // Link inside the document when the target is part of it
+    let href = "";
+    const name = target.split("/").pop() || "";
+    if (!target && heading) href = this.headingLink(heading);
+    else if (this.anchors.has(noteAnchorId(name)))
+      href = `#${noteAnchorId(name)}`;
+
+    return href
+      ? `<a class="internal-link" href="${escapeHtml(href)}">${escapeHtml(
+          text
+        )}</a>`
+      : `<span class="internal-link">${escapeHtml(text)}</span>`;
+  }
+
+  /**
+   * A placeholder for the link to a heading, which may come after the
+   * link; linkHeadings() fills in the heading's id.
+   */
+  private headingLink(heading: string): string {
+    const placeholder = `#kindle-heading-${this.headingLinks.size}`;
+    this.headingLinks.set(placeholder, heading);
+    return placeholder;
+  }
+
+  /**
+   * Point the links to headings of the note at those headings' ids.
+   * Run on the rendered HTML, once every heading has its id.
+   */
+  linkHeadings(html: string): string {
+    return html.replace(/href="(#kindle-heading-\d+)"/g, (match, key) => {
+      const heading = this.headingLinks.get(key);
+      if (heading === undefined) return match;
+      const id = this.ids.find(heading) ?? slugify(heading);
+      return `href="#${escapeHtml(id)}"`;
+    });
+  }
+
+  private renderFootnoteRef(key: string): string {
+    const note = this.footnotes.get(key);
+    if (!note) return "";
+
+    if (note.number === undefined) {
+      this.numbered.push(note);
+      note.number = this.numbered.length;
+    }
+    note.refs++;
+
+    const n = note.number;
+    const id = note.refs === 1 ? `fnref-${n}` : `fnref-${n}-${note.refs}`;
+    return `<sup class="footnote-ref"><a href="#fn-${n}" id="${id}">${n}</a></sup>`;
+  }
+
+  /**
+   * The endnotes section for every footnote referenced so far, each
+   * with links back to where it was referenced.
+   */
+  renderEndnotes(parse: (markdown: string) => string): string {
+    if (!this.numbered.length) return "";
+
+    const items: string[] = [];
+    // Footnotes may reference further footnotes, so the list can grow
+    for (let i = 0; i < this.numbered.length; i++) {
+      const note = this.numbered[i];
+      const n = note.number;
+      const backrefs: string[] = [];
+      for (let r = 1; r <= note.refs; r++) {
+        const id = r === 1 ? `fnref-${n}` : `fnref-${n}-${r}`;
+        backrefs.push(`<a href="#${id}" class="footnote-backref">↩</a>`);
+      }
+      // Keep the back-links on the last line of the note
+      const html = parse(note.text).trimEnd();
+      const body = html.endsWith("</p>")
+        ? `${html.slice(0, -4)} ${backrefs.join(" ")}</p>`
+        : `${html} ${backrefs.join(" ")}`;
+      items.push(`<li id="fn-${n}">${body}</li>`);
+    }
+
+    return `<section class="footnotes">
+<hr>
+<ol>
+${items.join("\n")}
+</ol>
+</section>`;
+  }
+}
@@ -0,0 +1,270 @@
+import { CodeTheme, codeThemeCss } from "./code";
+import { PageProfile } from "./devices";
+
+export type ThemeId = "classic" | "modern" | "high-contrast" | "dyslexic";
+export type CustomCssMode = "append" | "replace";
+
+export interface Theme {
+  name: string;
+  fontFamily: string;
+  lineHeight: number;
+  css: string;
+}
+
+export const THEMES: Record<ThemeId, Theme> = {
+  classic: {
+    name: "Classic serif",
+    fontFamily: 'Georgia, "Times New Roman", serif',
+    lineHeight: 1.6,
+    css: `
+  h1 { font-size: 1.8em; margin-top: 0.8em; margin-bottom: 0.4em; }
+  h2 { font-size: 1.5em; margin-top: 0.7em; margin-bottom: 0.3em; }
+  h3 { font-size: 1.3em; margin-top: 0.6em; margin-bottom: 0.3em; }
+  h4, h5, h6 { font-size: 1.1em; margin-top: 0.5em; margin-bottom: 0.2em; }
+  blockquote {
+    border-left: 3px solid #999;
+    margin-left: 0;
+    padding-left: 16px;
+    color: #555;
+    font-style: italic;
+  }`,
+  },
+  modern: {
+    name: "Modern sans",
+    fontFamily:
+      '-apple-system, "Segoe UI", "Helvetica Neue", Helvetica, Arial, sans-serif',
+    lineHeight: 1.5,
+    css: `
+  h1, h2, h3, h4, h5, h6 { font-weight: 600; letter-spacing: -0.01em; }
+  h1 {
+    font-size: 1.9em;
+    margin-top: 0.8em;
+    margin-bottom: 0.4em;
+    padding-bottom: 0.2em;
+    border-bottom: 1px solid #ccc;
+  }
+  h2 { font-size: 1.45em; margin-top: 0.9em; margin-bottom: 0.3em; }
+  h3 { font-size: 1.2em; margin-top: 0.8em; margin-bottom: 0.3em; }
+  h4, h5, h6 { font-size: 1em; margin-top: 0.7em; margin-bottom: 0.2em; }
+  blockquote {
+    border-left: 4px solid #ccc;
+    margin-left: 0;
+    padding-left: 14px;
+    color: #444;
+  }`,
+  },
+  "high-contrast": {
+    name: "High contrast",
+    fontFamily: 'Verdana, Geneva, "DejaVu Sans", sans-serif',
+    lineHeight: 1.6,
+    css: `
+  body { font-weight: 500; }
+  h1 { font-size: 1.8em; margin-top: 0.8em; margin-bottom: 0.4em; }
+  h2 { font-size: 1.5em; margin-top: 0.7em; margin-bottom: 0.3em; }
+  h3 { font-size: 1.3em; margin-top: 0.6em; margin-bottom: 0.3em; }
+  h4, h5, h6 { font-size: 1.1em; margin-top: 0.5em; margin-bottom: 0.2em; }
+  blockquote { border-left: 4px solid black; margin-left: 0; padding-left: 14px; }
+  pre, code, th { background: white; }
+  pre, th, td, .callout { border-color: black; }
+  mark { background: none; text-decoration: underline; font-weight: bold; }
+  hr { border-top: 2px solid black; }`,
+  },
+  dyslexic: {
+    name: "Dyslexia friendly",
+    fontFamily: "OpenDyslexic, Lexend, Verdana, Arial, sans-serif",
+    lineHeight: 1.8,
+    css: `
+  body { letter-spacing: 0.05em; word-spacing: 0.16em; text-align: left; }
+  h1 { font-size: 1.7em; margin-top: 1em; margin-bottom: 0.5em; }
+  h2 { font-size: 1.4em; margin-top: 0.9em; margin-bottom: 0.4em; }
+  h3 { font-size: 1.2em; margin-top: 0.8em; margin-bottom: 0.4em; }
+  h4, h5, h6 { font-size: 1.05em; margin-top: 0.7em; margin-bottom: 0.3em; }
+  p { margin-top: 0.8em; margin-bottom: 0.8em; }
+  em, i { font-style: normal; font-weight: bold; }
+  blockquote { border-left: 4px solid #666; margin-left: 0; padding-left: 14px; }`,
+  },
+};
+
+export interface StylesheetOptions {
+  theme: ThemeId;
+  page: PageProfile;
+  fontSize: number;
+  /** Overrides the theme's font family when set. */
+  fontFamily: string;
+  /** Overrides the theme's line height when above 0. */
+  lineHeight: number;
+  codeTheme: CodeTheme;
+  codeWrap: boolean;
+  customCss: string;
+  customCssMode: CustomCssMode;
+}
+
+/** Look up a theme by id or display name, as typed in frontmatter. */
+export function findTheme(value: unknown): ThemeId | null {
+  if (typeof value !== "string") return null;
+  const wanted = value.trim().toLowerCase();
+  for (const [id, theme] of Object.entries(THEMES)) {
+    if (id === wanted || theme.name.toLowerCase() === wanted) {
+      return id as ThemeId;
+    }
+  }
+  return null;
+}
+
+/**
+ * The stylesheet for an exported document: page geometry, the shared
+ * base styles, the theme, and any custom CSS. Custom CSS in "replace"
+ * mode keeps only the page geometry and page breaks.
+ */
+export function buildStylesheet(options: StylesheetOptions): string {
+  const theme = THEMES[options.theme] || THEMES.classic;
+  const { page } = options;
+
+  const pageCss = `
+  @page {
+    size: ${page.width}mm ${page.height}mm;
+    margin: ${page.margin}mm;
+  }`;
+  const pageBreakCss = `
+  .kindle-pdf-page-break { page-break-after: always; break-after: page; }`;
+
+  if (options.customCss && options.customCssMode === "replace") {
+    return `${pageCss}${pageBreakCss}\n${options.customCss}`;
+  }
+
+  const baseCss = `
+  body {
+    margin: 0;
+    padding: 0;
+    background: white;
+    color: black;
+    font-family: ${options.fontFamily || theme.fontFamily};
+    font-size: ${options.fontSize}px;
+    line-height: ${options.lineHeight || theme.lineHeight};
+  }
+  p { margin-top: 0.4em; margin-bottom: 0.4em; }
+  img { max-width: 100%; height: auto; }
+  pre {
+    background: #f4f4f4;
+    border: 1px solid #ddd;
+    border-radius: 4px;
+    padding: 12px;
+    white-space: ${options.codeWrap ? "pre-wrap" : "pre"};
+    font-family: "Courier New", Courier, monospace;
+    font-size: 0.9em;
+    line-height: 1.4;
+  }
+  code {
+    font-family: "Courier New", Courier, monospace;
+    font-size: 0.9em;
+    background: #f4f4f4;
+    padding: 2px 4px;
+    border-radius: 3px;
+  }
+  pre code { background: none; padding: 0; }
+  .code-line-number {
+    display: inline-block;
+    width: 3ch;
+    margin-right: 1ch;
+    text-align: right;
+    color: #777;
+  }
+  .code-continuation { display: inline-block; width: 2ch; color: #777; }
+  ul, ol { padding-left: 24px; margin-top: 0.4em; margin-bottom: 0.4em; }
+  li { margin-bottom: 0.2em; }
+  mark { background: #fff3a8; padding: 1px 2px; }
+  hr { border: none; border-top: 1px solid #ccc; margin: 1em 0; }
+  table { border-collapse: collapse; width: 100%; margin: 0.5em 0; }
+  th, td { border: 1px solid #ccc; padding: 6px 10px; text-align: left; }
+  th { background: #f4f4f4; font-weight: bold; }
+  .callout {
+    border: 1px solid #999;
+    border-left: 4px solid #333;
+    border-radius: 4px;
+    margin: 0.8em 0;
+    padding: 8px 12px;
+    break-inside: avoid;
+  }
+  .callout-title { font-weight: bold; margin-bottom: 0.3em; }
+  .callout-content > :first-child { margin-top: 0; }
+  .callout-content > :last-child { margin-bottom: 0; }
+  .internal-link { color: black; text-decoration: underline dotted; }
+  li.task-list-item { list-style: none; margin-left: -1.2em; }
+  .task-checkbox { display: inline-block; width: 1.2em; }
+  .footnote-ref a { text-decoration: none; color: black; }
+  .footnotes { font-size: 0.9em; margin-top: 2em; }
+  .footnote-backref { text-decoration: none; color: black; }
+  .math-block { margin: 0.8em 0; text-align: center; }
+  .mermaid-diagram { margin: 0.8em 0; text-align: center; break-inside: avoid; }
+  .mermaid-diagram svg { max-width: 100%; height: auto; }
+  .kindle-pdf-toc-title { font-size: 1.5em; font-weight: bold; margin-top: 0.7em; }
+  .kindle-pdf-toc ol { list-style: none; padding-left: 0; }
+  .kindle-pdf-toc ol ol { padding-left: 1.5em; }
+  .kindle-pdf-toc a { color: black; text-decoration: none; }
+  .kindle-pdf-subtitle { font-size: 1.2em; font-style: italic; margin-top: -0.3em; }
+  .kindle-pdf-cover { text-align: center; padding-top: 15%; }
+  .kindle-pdf-cover img { max-height: ${page.height / 2}mm; max-width: 100%; }
+  .kindle-pdf-cover-title { font-size: 2em; font-weight: bold; margin: 1em 0 0.3em; }
+  .kindle-pdf-cover-subtitle { font-size: 1.3em; font-style: italic; }
+  .kindle-pdf-cover-author { font-size: 1.2em; margin-top: 2em; }
+  .kindle-pdf-page-image { display: block; margin: 0.8em auto; border: 1px solid #ccc; }
+  .kindle-pdf-attachment {
+    border: 1px dashed #999;
+    border-radius: 4px;
+    margin: 0.8em 0;
+    padding: 8px 12px;
+    font-size: 0.9em;
+  }
+  .kindle-pdf-attachment-kind { font-weight: bold; margin-right: 0.4em; }
+  .kindle-canvas-page {
+    position: relative;
+    overflow: hidden;
+    margin: 0 auto;
+    break-inside: avoid;
+  }
+  .kindle-canvas-page + .kindle-canvas-page { break-before: page; }
+  .kindle-canvas { position: absolute; transform-origin: 0 0; }
+  .kindle-canvas-edges { position: absolute; left: 0; top: 0; }
+  .kindle-canvas-edge { fill: none; stroke: #333; stroke-width: 2; }
+  .kindle-canvas-edges marker path { fill: #333; }
+  .kindle-canvas-edge-label {
+    font-size: 14px;
+    text-anchor: middle;
+    dominant-baseline: middle;
+    stroke: white;
+    stroke-width: 4px;
+    paint-order: stroke;
+  }
+  .kindle-canvas-group {
+    position: absolute;
+    box-sizing: border-box;
+    border: 2px dashed #999;
+    border-radius: 8px;
+  }
+  .kindle-canvas-group-label {
+    display: inline-block;
+    padding: 2px 8px;
+    font-size: 0.9em;
+    font-weight: bold;
+  }
+  .kindle-canvas-card {
+    position: absolute;
+    box-sizing: border-box;
+    overflow: hidden;
+    padding: 4px 12px;
+    border: 2px solid #444;
+    border-radius: 8px;
+    background: white;
+  }
+  .kindle-canvas-card-body > :first-child { margin-top: 0.3em; }
+  .kindle-canvas-card img { max-width: 100%; }`;
+
+  return [
+    pageCss,
+    baseCss,
+    theme.css,
+    codeThemeCss(options.codeTheme),
+    pageBreakCss,
+    options.customCss,
+  ].join("\n");
+}
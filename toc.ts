@@ -0,0 +1,103 @@
+import { escapeHtml } from "./markup";
+
+export interface TocEntry {
+  id: string;
+  text: string;
+  level: number;
+  children: TocEntry[];
+}
+
+export function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .trim()
+      .replace(/[^\w\s\u00C0-\uFFFF-]/g, "")
+      .replace(/\s+/g, "-") || "section"
+  );
+}
+
+/**
+ * Hands out unique heading ids for one document. The same heading text
+ * always maps to the same id, with -1, -2… appended for repeats.
+ */
+export class HeadingIds {
+  private used = new Set<string>();
+  private headings = new Map<string, string>();
+
+  next(text: string): string {
+    const base = slugify(text);
+    let id = base;
+    for (let n = 1; this.used.has(id); n++) id = `${base}-${n}`;
+    this.used.add(id);
+    return id;
+  }
+
+  /** The id of a heading of the note, which find() then knows. */
+  heading(text: string): string {
+    const id = this.next(text);
+    const base = slugify(text);
+    if (!this.headings.has(base)) this.headings.set(base, id);
+    return id;
+  }
+
+  /** The id of the first heading with this text, as `[[#text]]` finds. */
+  find(text: string): string | undefined {
+    return this.headings.get(slugify(text));
+  }
+
+  has(id: string): boolean {
+    return this.used.has(id);
+  }
+
+  reserve(id: string): void {
+    this.used.add(id);
+  }
+}
+
+/** Plain text of a rendered inline HTML fragment. */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/** Nest a flat, document-ordered heading list by level. */
+export function buildTocTree(headings: TocEntry[]): TocEntry[] {
+  const roots: TocEntry[] = [];
+  const stack: TocEntry[] = [];
+
+  for (const heading of headings) {
+    const entry: TocEntry = { ...heading, children: [] };
+    while (stack.length && stack[stack.length - 1].level >= entry.level) {
+      stack.pop();
+    }
+    if (stack.length) stack[stack.length - 1].children.push(entry);
+    else roots.push(entry);
+    stack.push(entry);
+  }
+
+  return roots;
+}
+
+/** Render a heading tree as nested ordered lists of links. */
+export function renderTocList(
+  entries: TocEntry[],
+  href: (id: string) => string = (id) => `#${id}`
+): string {
+  const items = entries.map((entry) => {
+    const link = `<a href="${escapeHtml(href(entry.id))}">${escapeHtml(
+      entry.text
+    )}</a>`;
+    const children = entry.children.length
+      ? renderTocList(entry.children, href)
+      : "";
+    return `<li>${link}${children}</li>`;
+  });
+  return `<ol>${items.join("")}</ol>`;
+}